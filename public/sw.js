@@ -0,0 +1,21 @@
+// Service worker: shows agent state notifications sent via Web Push
+
+self.addEventListener('push', (event) => {
+    const data = event.data ? event.data.json() : {};
+    event.waitUntil(self.registration.showNotification(data.title || 'Antigravity Monitor', {
+        body: data.body || '',
+        tag: data.tag, // One notification per window, replaced on each change
+        renotify: true,
+        data: { url: data.url || '/' }
+    }));
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        const existing = windows.find(w => new URL(w.url).origin === self.location.origin);
+        if (existing) return existing.focus();
+        return self.clients.openWindow(event.notification.data.url);
+    })());
+});
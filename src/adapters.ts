@@ -0,0 +1,199 @@
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { log } from './log.js';
+
+// Chat-surface adapters: the selectors that tie the monitor to one IDE's DOM.
+// Extra adapters come from the config file and are tried before the built-in one.
+
+export interface ChatAdapter {
+    name: string;
+    targetUrl: string[]; // A CDP target matches if its URL contains one of these...
+    targetTitle: string[]; // ...or its title does
+    root: string; // Conversation container that gets captured and observed
+    editor: string; // Chat input; the last visible match is used
+    submit: string | null; // Send button (or an element inside it); Enter is pressed otherwise
+    inputArea: string | null; // Closest ancestor of the editor to cut from captures
+    panel: string | null; // Box the screencast fallback is cropped to; the root's box otherwise
+    controls: ChatControls;
+}
+
+// Elements matching the selector (or their enclosing button), narrowed by a case-insensitive text pattern
+export interface ControlSelector {
+    selector: string;
+    text: string | null;
+}
+
+export interface ChatControls {
+    stop: ControlSelector | null;
+    newChat: ControlSelector | null;
+    model: ControlSelector | null; // Picker trigger; its label is the current model
+    mode: ControlSelector | null;
+    option: string; // Entries of an open picker
+}
+
+const PICKER_OPTION = '[role="option"], [role="menuitem"], [role="menuitemradio"], [role="listbox"] > *';
+
+export const ANTIGRAVITY_ADAPTER: ChatAdapter = {
+    name: 'antigravity',
+    targetUrl: ['workbench.html'],
+    targetTitle: ['workbench'],
+    root: '#cascade',
+    editor: '#cascade [data-lexical-editor="true"][contenteditable="true"][role="textbox"]',
+    submit: 'svg.lucide-arrow-right',
+    inputArea: 'div[id^="cascade"] > div',
+    panel: '.part.auxiliarybar',
+    controls: {
+        stop: { selector: 'svg.lucide-square, svg.lucide-circle-stop', text: null },
+        newChat: { selector: '[aria-label*="new conversation" i], [title*="new conversation" i], [aria-label*="new chat" i], [title*="new chat" i]', text: null },
+        model: { selector: '#cascade button, #cascade [role="button"]', text: '^(gemini|claude|gpt)' },
+        mode: { selector: '#cascade button, #cascade [role="button"]', text: '^(planning|fast)$' },
+        option: PICKER_OPTION
+    }
+};
+
+// State
+let adapters: ChatAdapter[] = [ANTIGRAVITY_ADAPTER];
+
+export function initAdapters(extra: ChatAdapter[]): void {
+    adapters = [...extra, ANTIGRAVITY_ADAPTER];
+    log.info(`🧩 Adapters: ${adapters.map(a => a.name).join(', ')}`, { adapters: adapters.map(a => a.name) });
+}
+
+export function listAdapters(): ChatAdapter[] {
+    return adapters;
+}
+
+// Adapters whose target matching accepts a CDP target, in priority order
+export function adaptersForTarget(target: { url?: string; title?: string }): ChatAdapter[] {
+    return adapters.filter(a =>
+        a.targetUrl.some(s => target.url?.includes(s)) || a.targetTitle.some(s => target.title?.includes(s)));
+}
+
+function stringList(value: unknown): string[] | null {
+    if (value === undefined) return [];
+    if (typeof value === 'string') return [value];
+    return Array.isArray(value) && value.every(v => typeof v === 'string') ? value : null;
+}
+
+// "controls": each entry is a selector, { selector, text } or null; missing entries come from the base adapter
+function parseControls(raw: unknown, base: ChatControls | undefined, label: string, problems: string[]): ChatControls {
+    const controls: ChatControls = base
+        ? { ...base }
+        : { stop: null, newChat: null, model: null, mode: null, option: PICKER_OPTION };
+    if (raw === undefined) return controls;
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        problems.push(`${label}: "controls" must be an object`);
+        return controls;
+    }
+
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+        if (key === 'option') {
+            if (typeof value === 'string' && value.trim()) controls.option = value;
+            else problems.push(`${label}: "controls.option" must be a CSS selector`);
+        } else if (key === 'stop' || key === 'newChat' || key === 'model' || key === 'mode') {
+            const spec = value as { selector?: unknown; text?: unknown } | string | null;
+            if (spec === null) {
+                controls[key] = null;
+            } else if (typeof spec === 'string' && spec.trim()) {
+                controls[key] = { selector: spec, text: null };
+            } else if (spec && typeof spec === 'object' && typeof spec.selector === 'string' && (spec.text === undefined || typeof spec.text === 'string')) {
+                if (typeof spec.text === 'string') {
+                    try { new RegExp(spec.text, 'i'); } catch (err) { problems.push(`${label}: "controls.${key}.text": ${(err as Error).message}`); }
+                }
+                controls[key] = { selector: spec.selector, text: spec.text ?? null };
+            } else {
+                problems.push(`${label}: "controls.${key}" must be a selector, { "selector", "text" } or null`);
+            }
+        } else {
+            problems.push(`${label}: unknown control "${key}"`);
+        }
+    }
+    return controls;
+}
+
+// Validate one adapter definition from the config file; "extends" copies an earlier or built-in adapter
+function parseAdapter(raw: unknown, label: string, known: ChatAdapter[], problems: string[]): ChatAdapter | null {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        problems.push(`${label}: expected an object or a path to a JSON file`);
+        return null;
+    }
+
+    const data = raw as Record<string, unknown>;
+    const fields = new Set(['name', 'extends', 'targetUrl', 'targetTitle', 'root', 'editor', 'submit', 'inputArea', 'panel', 'controls']);
+    for (const key of Object.keys(data)) {
+        if (!fields.has(key)) problems.push(`${label}: unknown key "${key}"`);
+    }
+
+    const before = problems.length;
+    let base: ChatAdapter | undefined;
+    if (data.extends !== undefined) {
+        base = known.find(a => a.name === data.extends);
+        if (!base) problems.push(`${label}: extends unknown adapter "${String(data.extends)}"`);
+    }
+
+    const name = data.name;
+    if (typeof name !== 'string' || !name.trim()) {
+        problems.push(`${label}: "name" is required`);
+    } else if (known.some(a => a.name === name)) {
+        problems.push(`${label}: adapter "${name}" is defined twice`);
+    }
+
+    const targetUrl = data.targetUrl === undefined && base ? base.targetUrl : stringList(data.targetUrl);
+    const targetTitle = data.targetTitle === undefined && base ? base.targetTitle : stringList(data.targetTitle);
+    if (!targetUrl || !targetTitle) {
+        problems.push(`${label}: "targetUrl" and "targetTitle" must be strings or lists of strings`);
+    } else if (targetUrl.length + targetTitle.length === 0) {
+        problems.push(`${label}: needs "targetUrl" or "targetTitle" to match any window`);
+    }
+
+    const selector = (key: 'root' | 'editor' | 'submit' | 'inputArea' | 'panel', required: boolean): string | null => {
+        const value = data[key] === undefined ? base?.[key] : data[key];
+        if (typeof value === 'string' && value.trim()) return value;
+        if (value === null && !required) return null;
+        if (value !== undefined || required) {
+            problems.push(`${label}: "${key}" must be a CSS selector${required ? '' : ' or null'}`);
+        }
+        return null;
+    };
+    const adapter: ChatAdapter = {
+        name: name as string,
+        targetUrl: targetUrl ?? [],
+        targetTitle: targetTitle ?? [],
+        root: selector('root', true) as string,
+        editor: selector('editor', true) as string,
+        submit: selector('submit', false),
+        inputArea: selector('inputArea', false),
+        panel: selector('panel', false),
+        controls: parseControls(data.controls, base?.controls, label, problems)
+    };
+
+    return problems.length === before ? adapter : null;
+}
+
+// "adapters" from the config file: inline objects or paths to JSON files (relative to the config file)
+export function parseAdapters(value: unknown, configFile: string, problems: string[]): ChatAdapter[] {
+    if (!Array.isArray(value)) {
+        problems.push(`${configFile}: "adapters" must be a list`);
+        return [];
+    }
+
+    const parsed: ChatAdapter[] = [];
+    value.forEach((entry, i) => {
+        let raw: unknown = entry;
+        let label = `${configFile}: adapters[${i}]`;
+        if (typeof entry === 'string') {
+            const path = resolve(dirname(configFile), entry);
+            label = path;
+            try {
+                raw = JSON.parse(readFileSync(path, 'utf8'));
+            } catch (err) {
+                problems.push(`${label}: ${(err as Error).message}`);
+                return;
+            }
+        }
+
+        const adapter = parseAdapter(raw, label, [...parsed, ANTIGRAVITY_ADAPTER], problems);
+        if (adapter) parsed.push(adapter);
+    });
+    return parsed;
+}
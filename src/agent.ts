@@ -0,0 +1,84 @@
+// Agent state inferred from captured DOM, debounced so flicker doesn't cause events
+
+export type AgentState = 'generating' | 'idle' | 'waiting_approval' | 'error';
+
+// Hints collected by CAPTURE_SCRIPT
+export interface AgentSignals {
+    generating: boolean;
+    error: string | null;
+}
+
+interface AgentInput {
+    agentSignals?: AgentSignals;
+    actions?: { label: string; disabled: boolean }[];
+}
+
+export interface AgentStateChange {
+    state: AgentState;
+    previous: AgentState | null;
+    detail: string | null;
+}
+
+export interface AgentStateTracker {
+    state: AgentState | null;
+    detail: string | null;
+    pending: AgentState | null;
+    pendingSince: number;
+}
+
+// How long a state must hold before it counts. Idle is slow on purpose:
+// a long reply pauses between chunks and must not look "finished" each time.
+const STATE_DEBOUNCE: Record<AgentState, number> = {
+    generating: 0,
+    waiting_approval: 1000,
+    error: 2000,
+    idle: 5000
+};
+
+const APPROVAL_LABEL = /^(accept|run|allow|approve|always allow|accept all)\b/i;
+
+function infer(input: AgentInput): { state: AgentState; detail: string | null } {
+    const signals = input.agentSignals;
+    if (signals?.error) return { state: 'error', detail: signals.error };
+
+    const approvals = (input.actions || []).filter(a => !a.disabled && APPROVAL_LABEL.test(a.label));
+    if (approvals.length) return { state: 'waiting_approval', detail: approvals.map(a => a.label).join(', ') };
+
+    if (signals?.generating) return { state: 'generating', detail: null };
+    return { state: 'idle', detail: null };
+}
+
+export function createTracker(): AgentStateTracker {
+    return { state: null, detail: null, pending: null, pendingSince: 0 };
+}
+
+// Feed one capture; returns a change once the new state has held long enough
+export function observe(tracker: AgentStateTracker, input: AgentInput, now = Date.now()): AgentStateChange | null {
+    const { state, detail } = infer(input);
+
+    if (state === tracker.state) {
+        tracker.pending = null;
+        tracker.detail = detail;
+        return null;
+    }
+
+    if (state !== tracker.pending) {
+        tracker.pending = state;
+        tracker.pendingSince = now;
+    }
+
+    if (now - tracker.pendingSince < STATE_DEBOUNCE[state]) return null;
+
+    const previous = tracker.state;
+    tracker.state = state;
+    tracker.detail = detail;
+    tracker.pending = null;
+    return { state, previous, detail };
+}
+
+// Time until the pending state commits if nothing changes; null when nothing is pending.
+// A quiet page sends no more captures, so the caller has to capture again then.
+export function pendingDelay(tracker: AgentStateTracker, now = Date.now()): number | null {
+    if (!tracker.pending) return null;
+    return Math.max(0, tracker.pendingSince + STATE_DEBOUNCE[tracker.pending] - now);
+}
@@ -0,0 +1,158 @@
+import { mkdir, readdir, readFile, writeFile, realpath } from 'fs/promises';
+import { existsSync, realpathSync } from 'fs';
+import { join, sep } from 'path';
+import { homedir } from 'os';
+import { createHash } from 'crypto';
+import { Express, Request, Response } from 'express';
+import { DATA_DIR } from './paths.js';
+import { log } from './log.js';
+
+// Content-addressed cache for icons, fonts and images the captured page loads from
+// the Antigravity install (vscode-file://). Snapshots point at /assets/<hash> instead.
+
+const ASSETS_DIR = join(DATA_DIR, 'assets');
+const MAX_ASSET_SIZE = 5 * 1024 * 1024;
+const MAX_KNOWN_PATHS = 5000; // Path -> hash lookups kept in memory
+
+const TYPES: Record<string, string> = {
+    svg: 'image/svg+xml',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    ico: 'image/x-icon',
+    woff: 'font/woff',
+    woff2: 'font/woff2',
+    ttf: 'font/ttf',
+    otf: 'font/otf'
+};
+
+// vscode-file://vscode-app/<absolute path>.<ext>, with any query string or fragment
+const VSCODE_FILE_URL = new RegExp(`vscode-file://vscode-app(/[^"'\\s()?#]+\\.(?:${Object.keys(TYPES).join('|')}))(?:[?#][^"'\\s)]*)?`, 'gi');
+
+// State
+let roots: string[] = []; // Real paths assets may be read from
+const files = new Map<string, string>(); // hash -> file name in ASSETS_DIR
+const known = new Map<string, string | null>(); // local path -> hash, null if not servable
+const pending = new Map<string, Promise<string | null>>();
+
+// Where Antigravity is usually installed, plus its user extensions
+function defaultRoots(): string[] {
+    const home = homedir();
+    switch (process.platform) {
+        case 'darwin':
+            return ['/Applications/Antigravity.app', join(home, 'Applications', 'Antigravity.app'), join(home, '.antigravity')];
+        case 'win32': {
+            const local = process.env.LOCALAPPDATA || join(home, 'AppData', 'Local');
+            return [join(local, 'Programs', 'Antigravity'), join(process.env.ProgramFiles || 'C:\\Program Files', 'Antigravity'), join(home, '.antigravity')];
+        }
+        default:
+            return ['/usr/share/antigravity', '/opt/Antigravity', '/opt/antigravity', join(home, '.antigravity')];
+    }
+}
+
+export async function initAssets(extraRoots: string[]): Promise<void> {
+    await mkdir(ASSETS_DIR, { recursive: true });
+    for (const file of await readdir(ASSETS_DIR)) {
+        const match = /^([a-f0-9]{32})\.(\w+)$/.exec(file);
+        if (match && TYPES[match[2]]) files.set(match[1], file);
+    }
+
+    // Real paths, so symlinks can't lead out of an allowed directory
+    roots = [...extraRoots, ...defaultRoots()]
+        .filter(root => existsSync(root))
+        .map(root => realpathSync(root));
+    log.info(`🖼️  Assets: ${files.size} cached, served from ${roots.length ? roots.join(', ') : 'no install directory found'}`, { cached: files.size, roots });
+}
+
+// "/c:/Users/..." in Windows URLs is "c:/Users/..."
+function localPath(urlPath: string): string | null {
+    try {
+        const path = decodeURIComponent(urlPath);
+        return /^\/[a-zA-Z]:\//.test(path) ? path.slice(1) : path;
+    } catch {
+        return null;
+    }
+}
+
+function isAllowed(path: string): boolean {
+    return roots.some(root => path === root || path.startsWith(root.endsWith(sep) ? root : root + sep));
+}
+
+// Hash of a servable file, storing it in the cache the first time
+async function storeAsset(path: string): Promise<string | null> {
+    const extension = path.split('.').pop()!.toLowerCase();
+    if (!TYPES[extension]) return null;
+
+    let real: string;
+    try {
+        real = await realpath(path);
+    } catch {
+        return null;
+    }
+    if (!isAllowed(real)) return null;
+
+    const content = await readFile(real);
+    if (content.length > MAX_ASSET_SIZE) return null;
+
+    const hash = createHash('sha256').update(content).digest('hex').slice(0, 32);
+    if (!files.has(hash)) {
+        const file = `${hash}.${extension}`;
+        await writeFile(join(ASSETS_DIR, file), content);
+        files.set(hash, file);
+    }
+    return hash;
+}
+
+async function resolveAsset(path: string): Promise<string | null> {
+    if (known.has(path)) return known.get(path)!;
+
+    let lookup = pending.get(path);
+    if (!lookup) {
+        lookup = storeAsset(path).catch(err => {
+            log.error(`Asset error (${path})`, { path, error: (err as Error).message });
+            return null;
+        });
+        pending.set(path, lookup);
+    }
+
+    const hash = await lookup;
+    pending.delete(path);
+    if (known.size >= MAX_KNOWN_PATHS) known.delete(known.keys().next().value!);
+    known.set(path, hash);
+    return hash;
+}
+
+// Point vscode-file:// URLs in captured HTML or CSS at /assets/<hash>.
+// URLs outside the allowed directories are left alone (the phone can't load them either way).
+export async function rewriteAssetUrls(text: string): Promise<string> {
+    const paths = new Set<string>();
+    for (const match of text.matchAll(VSCODE_FILE_URL)) paths.add(match[1]);
+    if (paths.size === 0) return text;
+
+    const hashes = new Map<string, string>();
+    await Promise.all([...paths].map(async (urlPath) => {
+        const path = localPath(urlPath);
+        const hash = path && await resolveAsset(path);
+        if (hash) hashes.set(urlPath, hash);
+    }));
+
+    return text.replace(VSCODE_FILE_URL, (match, urlPath: string) => {
+        const hash = hashes.get(urlPath);
+        return hash ? `/assets/${hash}` : match;
+    });
+}
+
+// Cached assets never change under their hash (register behind auth)
+export function registerAssetRoutes(app: Express): void {
+    app.get('/assets/:hash', (req: Request, res: Response) => {
+        const file = /^[a-f0-9]{32}$/.test(req.params.hash) ? files.get(req.params.hash) : undefined;
+        if (!file) {
+            return res.status(404).json({ error: 'Unknown asset' });
+        }
+
+        res.type(TYPES[file.split('.').pop()!]);
+        res.sendFile(file, { root: ASSETS_DIR, maxAge: 365 * 24 * 60 * 60 * 1000, immutable: true });
+    });
+}
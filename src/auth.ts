@@ -0,0 +1,283 @@
+import type { Express, Request, Response, NextFunction } from 'express';
+import type { IncomingMessage } from 'http';
+import { randomBytes, randomInt, createHash } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { networkInterfaces } from 'os';
+import { DATA_DIR } from './paths.js';
+import { log } from './log.js';
+
+const PAIRING_CODE_TTL = 10 * 60 * 1000; // One-time codes expire after 10 minutes
+const PAIRING_IP_MAX_ATTEMPTS = 5; // Wrong guesses from one address before it has to wait
+const PAIRING_IP_LOCKOUT = 15 * 60 * 1000;
+const PAIRING_MAX_FAILURES = 20; // Wrong guesses in total before pairing stops until a new code is issued
+const TOKEN_COOKIE = 'ag_token';
+const TOKEN_MAX_AGE = 365 * 24 * 60 * 60; // Cookie lifetime in seconds
+const DEVICES_FILE = join(DATA_DIR, 'devices.json');
+
+// Types
+interface Device {
+    id: string;
+    name: string;
+    tokenHash: string; // sha256 of the token - the token itself is never stored
+    createdAt: string;
+    lastSeenAt: string | null;
+    lastIp: string | null;
+}
+
+interface PairingCode {
+    code: string;
+    expiresAt: number;
+}
+
+interface PairingFailures {
+    count: number;
+    lockedUntil: number;
+}
+
+// State
+let devices: Device[] = [];
+let pairingCode: PairingCode | null = null;
+// Wrong guesses since the last code issued on purpose (startup, POST /pair/code); expiry doesn't reset them
+let pairingFailures = 0;
+const pairingFailuresByIp = new Map<string, PairingFailures>();
+let allowedIps: string[] = [];
+let serverPort: number | string = 3000;
+let serverHost = '0.0.0.0';
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+function loadDevices(): void {
+    try {
+        if (existsSync(DEVICES_FILE)) {
+            devices = JSON.parse(readFileSync(DEVICES_FILE, 'utf8')) as Device[];
+        }
+    } catch (err) {
+        log.error('Could not read paired devices', { error: (err as Error).message });
+    }
+}
+
+function saveDevices(): void {
+    mkdirSync(dirname(DEVICES_FILE), { recursive: true });
+    writeFileSync(DEVICES_FILE, JSON.stringify(devices, null, 2), { mode: 0o600 });
+}
+
+// Bound address, or the first non-internal IPv4 address when listening on all interfaces
+function lanAddress(): string {
+    if (serverHost !== '0.0.0.0' && serverHost !== '::') {
+        return serverHost.includes(':') ? `[${serverHost}]` : serverHost;
+    }
+    for (const list of Object.values(networkInterfaces())) {
+        const found = list?.find(i => i.family === 'IPv4' && !i.internal);
+        if (found) return found.address;
+    }
+    return 'localhost';
+}
+
+// Issue a new one-time code and print it on the desktop console
+function rotatePairingCode(): PairingCode {
+    const code = String(randomInt(0, 100000000)).padStart(8, '0');
+    pairingCode = { code, expiresAt: Date.now() + PAIRING_CODE_TTL };
+    const url = `http://${lanAddress()}:${serverPort}/?code=${code}`;
+    log.info(`🔑 Pairing code: ${code} (valid ${PAIRING_CODE_TTL / 60000} min)\n   Open on your phone: ${url}`, { code, url });
+    return pairingCode;
+}
+
+// Strip IPv4-mapped IPv6 prefix so "::ffff:192.168.1.5" matches "192.168.1.5"
+function normalizeIp(ip: string | undefined): string {
+    return (ip || '').replace(/^::ffff:/, '');
+}
+
+function ipv4ToInt(ip: string): number | null {
+    const parts = ip.split('.').map(Number);
+    if (parts.length !== 4 || parts.some(p => !Number.isInteger(p) || p < 0 || p > 255)) return null;
+    return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0;
+}
+
+// Exact addresses or IPv4 CIDR ranges ("192.168.1.0/24")
+function isIpAllowed(rawIp: string | undefined): boolean {
+    if (allowedIps.length === 0) return true;
+    const ip = normalizeIp(rawIp);
+
+    return allowedIps.some(entry => {
+        if (!entry.includes('/')) return entry === ip;
+        const [range, bitsStr] = entry.split('/');
+        const bits = Number(bitsStr);
+        const ipInt = ipv4ToInt(ip);
+        const rangeInt = ipv4ToInt(range);
+        if (ipInt === null || rangeInt === null || !(bits >= 0 && bits <= 32)) return false;
+        const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+        return (ipInt & mask) === (rangeInt & mask);
+    });
+}
+
+function readCookie(header: string | undefined, name: string): string | null {
+    for (const part of (header || '').split(';')) {
+        const [key, ...rest] = part.trim().split('=');
+        if (key === name) return decodeURIComponent(rest.join('='));
+    }
+    return null;
+}
+
+// Token from "Authorization: Bearer ..." (scripts) or the pairing cookie (browser + WebSocket)
+function extractToken(req: IncomingMessage): string | null {
+    const auth = req.headers.authorization;
+    if (auth?.startsWith('Bearer ')) return auth.slice(7).trim();
+    return readCookie(req.headers.cookie, TOKEN_COOKIE);
+}
+
+function authenticate(req: IncomingMessage): Device | null {
+    const token = extractToken(req);
+    if (!token) return null;
+
+    const tokenHash = hashToken(token);
+    const device = devices.find(d => d.tokenHash === tokenHash);
+    if (!device) return null;
+
+    device.lastSeenAt = new Date().toISOString();
+    device.lastIp = normalizeIp(req.socket.remoteAddress);
+    return device;
+}
+
+// Load paired devices and print the first pairing code
+export function initAuth(port: number | string, host = '0.0.0.0'): void {
+    serverPort = port;
+    serverHost = host;
+    allowedIps = (process.env.ALLOWED_IPS || '').split(',').map(s => s.trim()).filter(Boolean);
+    loadDevices();
+    log.info(`🔒 ${devices.length} paired device(s)${allowedIps.length ? `, allowed IPs: ${allowedIps.join(', ')}` : ''}`, { devices: devices.length, allowedIps });
+    resetPairing();
+}
+
+// Count a wrong pairing code; the address waits after a few, and pairing stops altogether after many
+function recordPairingFailure(ip: string): void {
+    const now = Date.now();
+    for (const [key, entry] of pairingFailuresByIp) {
+        if (entry.lockedUntil && entry.lockedUntil <= now) pairingFailuresByIp.delete(key);
+    }
+
+    const entry = pairingFailuresByIp.get(ip) ?? { count: 0, lockedUntil: 0 };
+    entry.count++;
+    if (entry.count >= PAIRING_IP_MAX_ATTEMPTS) {
+        entry.lockedUntil = now + PAIRING_IP_LOCKOUT;
+        log.warn(`⚠️  Too many wrong pairing codes from ${ip}, ignoring it for ${PAIRING_IP_LOCKOUT / 60000} min`, { ip });
+    }
+    pairingFailuresByIp.set(ip, entry);
+
+    if (++pairingFailures === PAIRING_MAX_FAILURES) {
+        log.warn('⚠️  Too many wrong pairing codes, pairing is locked until a new code is issued (restart, or POST /pair/code from a paired device)', { failures: pairingFailures });
+    }
+}
+
+// Start over with a fresh code after the desktop user asked for one
+function resetPairing(): PairingCode {
+    pairingFailures = 0;
+    pairingFailuresByIp.clear();
+    return rotatePairingCode();
+}
+
+// Express middleware: IP allow-list for every request
+export function requireAllowedIp(req: Request, res: Response, next: NextFunction): void {
+    if (!isIpAllowed(req.socket.remoteAddress)) {
+        res.status(403).json({ error: 'IP not allowed' });
+        return;
+    }
+    next();
+}
+
+// Express middleware: paired device token
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+    const device = authenticate(req);
+    if (!device) {
+        res.status(401).json({ error: 'Not paired' });
+        return;
+    }
+    res.locals.device = device;
+    next();
+}
+
+// WebSocket upgrade check - returns the device id, or null to reject
+export function authenticateUpgrade(req: IncomingMessage): string | null {
+    if (!isIpAllowed(req.socket.remoteAddress)) return null;
+    return authenticate(req)?.id ?? null;
+}
+
+// Pairing and device management routes
+export function registerAuthRoutes(app: Express, onRevoke: (deviceId: string) => void): void {
+    // Trade a one-time code for a long-lived token
+    app.post('/pair', (req: Request, res: Response) => {
+        const { code, name } = req.body as { code?: string; name?: string };
+        const ip = normalizeIp(req.socket.remoteAddress);
+
+        if (pairingFailures >= PAIRING_MAX_FAILURES) {
+            return res.status(429).json({ error: 'Pairing is locked after too many wrong codes. Restart the server or request a new code from a paired device' });
+        }
+        const lockedUntil = pairingFailuresByIp.get(ip)?.lockedUntil ?? 0;
+        if (lockedUntil > Date.now()) {
+            res.setHeader('Retry-After', String(Math.ceil((lockedUntil - Date.now()) / 1000)));
+            return res.status(429).json({ error: 'Too many wrong pairing codes, try again later' });
+        }
+
+        if (!pairingCode || Date.now() > pairingCode.expiresAt) {
+            rotatePairingCode();
+            return res.status(401).json({ error: 'Pairing code expired, a new one was printed on the server console' });
+        }
+
+        if (!code || String(code).trim() !== pairingCode.code) {
+            recordPairingFailure(ip);
+            return res.status(401).json({ error: 'Invalid pairing code' });
+        }
+
+        const token = randomBytes(32).toString('base64url');
+        const device: Device = {
+            id: randomBytes(6).toString('hex'),
+            name: (name || req.headers['user-agent'] || 'Unknown device').slice(0, 100),
+            tokenHash: hashToken(token),
+            createdAt: new Date().toISOString(),
+            lastSeenAt: null,
+            lastIp: ip
+        };
+        devices.push(device);
+        saveDevices();
+        log.info(`📱 Paired device "${device.name}" (${device.id})`, { device: device.id, name: device.name });
+
+        // Code is single-use
+        pairingFailuresByIp.delete(ip);
+        rotatePairingCode();
+
+        res.setHeader('Set-Cookie', `${TOKEN_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${TOKEN_MAX_AGE}`);
+        res.json({ success: true, deviceId: device.id, token });
+    });
+
+    // Who am I (lets the page decide whether to show the pairing form)
+    app.get('/me', requireAuth, (_req: Request, res: Response) => {
+        const { id, name, createdAt } = res.locals.device as Device;
+        res.json({ id, name, createdAt });
+    });
+
+    // List paired devices
+    app.get('/devices', requireAuth, (_req: Request, res: Response) => {
+        res.json(devices.map(({ tokenHash: _hash, ...rest }) => rest));
+    });
+
+    // Revoke a device
+    app.delete('/devices/:id', requireAuth, (req: Request, res: Response) => {
+        const before = devices.length;
+        devices = devices.filter(d => d.id !== req.params.id);
+        if (devices.length === before) {
+            return res.status(404).json({ error: 'Unknown device' });
+        }
+        saveDevices();
+        onRevoke(req.params.id);
+        log.info(`🚫 Revoked device ${req.params.id}`, { device: req.params.id });
+        res.json({ success: true });
+    });
+
+    // Print a fresh code so another device can be paired
+    app.post('/pair/code', requireAuth, (_req: Request, res: Response) => {
+        const { expiresAt } = resetPairing();
+        res.json({ success: true, expiresAt: new Date(expiresAt).toISOString() });
+    });
+}
@@ -0,0 +1,228 @@
+import http from 'http';
+import { WebSocket } from 'ws';
+import { Config } from './config.js';
+import { adaptersForTarget } from './adapters.js';
+import { counter } from './metrics.js';
+import { log } from './log.js';
+
+// Chrome DevTools Protocol: finding Antigravity windows on the debug ports and talking to one of them
+
+const CDP_MAX_TIMEOUTS = 2; // Consecutive timeouts before the socket is treated as hung
+
+// Types
+interface CDPTarget {
+    id?: string;
+    type?: string;
+    url?: string;
+    title?: string;
+    webSocketDebuggerUrl?: string;
+}
+
+export interface TargetInfo {
+    id: string; // "<port>:<cdp target id>", unique across ports
+    port: number;
+    title: string;
+    workspace: string;
+    url: string; // webSocketDebuggerUrl
+    pageUrl: string; // What the window shows, for adapter matching
+}
+
+export interface CDPContext {
+    id: number;
+    origin?: string;
+    name?: string;
+}
+
+export interface CDPConnection {
+    ws: WebSocket;
+    call: (method: string, params: Record<string, unknown>) => Promise<CDPResult>;
+    on: (method: string, handler: (params: Record<string, unknown>) => void) => void;
+    contexts: CDPContext[];
+}
+
+// Why a CDP call failed: no answer in time, socket gone, CDP refused the call, or the page script threw
+export type CDPFailure = 'timeout' | 'closed' | 'protocol' | 'exception';
+
+export class CDPError extends Error {
+    constructor(message: string, readonly reason: CDPFailure) {
+        super(message);
+    }
+}
+
+export interface CDPResult {
+    result?: {
+        value?: unknown;
+    };
+    error?: {
+        message: string;
+    };
+}
+
+// Where to look and how long to wait; the matching Config fields
+export type CDPOptions = Pick<Config, 'cdpHost' | 'cdpPorts' | 'httpTimeout' | 'cdpCallTimeout' | 'cdpContextWait'>;
+
+const evaluateFailures = counter('ag_evaluate_failures_total', 'Scripts that failed in one execution context, by operation and reason');
+
+// A script failing in one context is routine (most contexts don't hold the chat), so it is
+// only logged at debug level - the counter shows when every context fails
+export function contextFailed(operation: string, ctx: CDPContext, err: unknown): void {
+    const reason = err instanceof CDPError ? err.reason : 'other';
+    evaluateFailures.inc({ operation, reason });
+    log.debug(`Evaluate failed (${operation}, context ${ctx.id})`, { operation, context: ctx.id, reason, error: (err as Error).message });
+}
+
+// Helper: HTTP GET JSON with timeout
+function getJson<T>(url: string, timeout: number): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const req = http.get(url, (res) => {
+            let data = '';
+            res.on('data', chunk => data += chunk);
+            res.on('end', () => {
+                try { resolve(JSON.parse(data) as T); } catch (e) { reject(e); }
+            });
+        });
+
+        req.on('error', reject);
+        req.setTimeout(timeout, () => {
+            req.destroy();
+            reject(new Error(`Timeout after ${timeout}ms`));
+        });
+    });
+}
+
+// Guess workspace name from window title ("file - workspace - Antigravity")
+function parseWorkspace(title: string): string {
+    const parts = title.split(/\s+[-\u2014]\s+/).map(p => p.trim()).filter(Boolean);
+    if (parts.length > 1 && /antigravity/i.test(parts[parts.length - 1])) parts.pop();
+    return parts[parts.length - 1] || title;
+}
+
+function hostPort(host: string, port: number): string {
+    return host.includes(':') ? `[${host}]:${port}` : `${host}:${port}`;
+}
+
+// Chrome reports debugger URLs as it sees itself (usually 127.0.0.1); point them at the host and port we reached it on
+function reachableUrl(debuggerUrl: string, host: string, port: number): string {
+    try {
+        const url = new URL(debuggerUrl);
+        url.host = hostPort(host, port);
+        return url.toString();
+    } catch {
+        return debuggerUrl;
+    }
+}
+
+// Find all windows some adapter accepts - all ports in parallel
+export async function discoverTargets(options: CDPOptions): Promise<TargetInfo[]> {
+    const attempts = options.cdpPorts.map(async (port): Promise<TargetInfo[]> => {
+        try {
+            const list = await getJson<CDPTarget[]>(`http://${hostPort(options.cdpHost, port)}/json/list`, options.httpTimeout);
+            return list
+                .filter(t => adaptersForTarget(t).length > 0)
+                .filter(t => t.webSocketDebuggerUrl)
+                .map(t => ({
+                    id: `${port}:${t.id || t.webSocketDebuggerUrl}`,
+                    port,
+                    title: t.title || '',
+                    workspace: parseWorkspace(t.title || ''),
+                    url: reachableUrl(t.webSocketDebuggerUrl!, options.cdpHost, port),
+                    pageUrl: t.url || ''
+                }));
+        } catch { }
+        return [];
+    });
+
+    const results = await Promise.all(attempts);
+    return results.flat();
+}
+
+// Connect to CDP
+export async function connectCDP(url: string, options: Pick<CDPOptions, 'cdpCallTimeout' | 'cdpContextWait'>): Promise<CDPConnection> {
+    const ws = new WebSocket(url);
+    await new Promise<void>((resolve, reject) => {
+        ws.on('open', resolve);
+        ws.on('error', reject);
+    });
+
+    let idCounter = 1;
+    let consecutiveTimeouts = 0;
+    const pending = new Map<number, { resolve: (r: CDPResult) => void; reject: (e: Error) => void; timer: NodeJS.Timeout }>();
+
+    const call = (method: string, params: Record<string, unknown>): Promise<CDPResult> => new Promise((resolve, reject) => {
+        if (ws.readyState !== WebSocket.OPEN) {
+            return reject(new CDPError('CDP socket closed', 'closed'));
+        }
+
+        const id = idCounter++;
+        const timer = setTimeout(() => {
+            pending.delete(id);
+            reject(new CDPError(`CDP ${method} timed out after ${options.cdpCallTimeout}ms`, 'timeout'));
+            // A renderer that stops answering never closes the socket - force it
+            if (++consecutiveTimeouts >= CDP_MAX_TIMEOUTS) ws.terminate();
+        }, options.cdpCallTimeout);
+
+        pending.set(id, { resolve, reject, timer });
+        ws.send(JSON.stringify({ id, method, params }));
+    });
+
+    const contexts: CDPContext[] = [];
+    const listeners = new Map<string, ((params: Record<string, unknown>) => void)[]>();
+    const on = (method: string, handler: (params: Record<string, unknown>) => void): void => {
+        listeners.set(method, [...(listeners.get(method) || []), handler]);
+    };
+
+    ws.on('message', (msg: Buffer | string) => {
+        try {
+            const data = JSON.parse(msg.toString()) as {
+                id?: number;
+                error?: { message: string };
+                result?: { result?: { value?: unknown }; exceptionDetails?: { text?: string; exception?: { description?: string } } };
+                method?: string;
+                params?: { context?: CDPContext; executionContextId?: number };
+            };
+
+            if (data.id !== undefined) {
+                const entry = pending.get(data.id);
+                if (!entry) return;
+                pending.delete(data.id);
+                clearTimeout(entry.timer);
+                consecutiveTimeouts = 0;
+                const exception = data.result?.exceptionDetails;
+                if (data.error) entry.reject(new CDPError(data.error.message, 'protocol'));
+                else if (exception) entry.reject(new CDPError(exception.exception?.description ?? exception.text ?? 'Page script threw', 'exception'));
+                // CDP Runtime.evaluate returns { result: { result: { value: ... } } }
+                else entry.resolve({ result: data.result?.result });
+                return;
+            }
+
+            // Keep the context list in step with page navigations and reloads
+            if (data.method === 'Runtime.executionContextCreated' && data.params?.context) {
+                contexts.push(data.params.context);
+            } else if (data.method === 'Runtime.executionContextDestroyed' && data.params) {
+                const idx = contexts.findIndex(c => c.id === data.params!.executionContextId);
+                if (idx !== -1) contexts.splice(idx, 1);
+            } else if (data.method === 'Runtime.executionContextsCleared') {
+                contexts.length = 0;
+            }
+
+            if (data.method) {
+                listeners.get(data.method)?.forEach(handler => handler((data.params || {}) as Record<string, unknown>));
+            }
+        } catch { }
+    });
+
+    ws.on('close', () => {
+        for (const entry of pending.values()) {
+            clearTimeout(entry.timer);
+            entry.reject(new CDPError('CDP socket closed', 'closed'));
+        }
+        pending.clear();
+    });
+
+    await call("Runtime.enable", {});
+
+    // Wait briefly for contexts (reduced from 1000ms!)
+    await new Promise(r => setTimeout(r, options.cdpContextWait));
+
+    return { ws, call, on, contexts };
+}
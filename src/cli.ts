@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+import { readFileSync } from 'fs';
+import { CommandSpec, loadConfig, usage, formatPorts } from './config.js';
+import { initLog, log } from './log.js';
+import { initAdapters } from './adapters.js';
+import { discoverTargets } from './cdp.js';
+import { AntigravitySession, openSession } from './session.js';
+import { transcriptToMarkdown } from './transcript.js';
+
+// Command line client for cron jobs, git hooks and other scripts: hand the agent a task, wait
+// for it to finish and read the result. Talks to Antigravity directly with the server's settings;
+// the web server doesn't need to run.
+
+const COMMANDS = ['targets', 'send', 'snapshot', 'wait-idle'];
+const FORMATS = ['md', 'json', 'html'];
+const DEFAULT_TIMEOUT = 600; // Seconds
+
+// Exit status
+const EXIT_FAILED = 1;
+const EXIT_TIMEOUT = 2;
+const EXIT_ATTENTION = 3; // The agent is waiting for an approval or stopped with an error
+
+const COMMAND: CommandSpec = {
+    usage: [
+        'Usage: ag-session <command> [options]',
+        '',
+        'Commands:',
+        '  targets'.padEnd(38) + 'List the Antigravity windows on the debug ports',
+        '  send <text...>'.padEnd(38) + 'Submit a message (- reads it from stdin)',
+        '  snapshot'.padEnd(38) + 'Print the conversation',
+        '  wait-idle'.padEnd(38) + 'Wait until the agent has finished',
+        '',
+        `Exit status: 0 done, ${EXIT_FAILED} failed, ${EXIT_TIMEOUT} timed out, ${EXIT_ATTENTION} the agent is waiting for approval or stopped with an error`
+    ],
+    flags: {
+        target: { type: 'string', short: 't', description: 'Window id or workspace name (default: the first window)' },
+        append: { type: 'boolean', description: 'send: add to the text already in the editor' },
+        wait: { type: 'boolean', short: 'w', description: 'send: then wait like wait-idle' },
+        timeout: { type: 'string', description: `wait-idle, send --wait: seconds to wait (default ${DEFAULT_TIMEOUT})` },
+        format: { type: 'string', short: 'f', description: `snapshot: ${FORMATS.join(', ')} (default md)` },
+        json: { type: 'boolean', description: 'targets: print JSON' }
+    },
+    defaults: { logLevel: 'warn' } // Connection progress only with --log-level info
+};
+
+function write(text: string): void {
+    process.stdout.write(text.endsWith('\n') ? text : text + '\n');
+}
+
+// Print the state the agent settled in; the exit status tells scripts whether it finished
+async function waitIdle(session: AntigravitySession, timeout: number): Promise<number> {
+    const state = await session.waitForIdle(timeout * 1000);
+    if (!state) {
+        log.error(`⏳ The agent is still busy after ${timeout}s`, { timeout });
+        return EXIT_TIMEOUT;
+    }
+    write(state);
+    return state === 'idle' ? 0 : EXIT_ATTENTION;
+}
+
+async function snapshot(session: AntigravitySession, format: string): Promise<number> {
+    if (format === 'html') {
+        if (!session.lastSnapshot) throw new Error(`Chat not found${session.adapterError ? ` (${session.adapterError})` : ''}`);
+        write(session.lastSnapshot.html);
+        return 0;
+    }
+
+    const transcript = await session.transcript();
+    if (!transcript) throw new Error(`Transcript not available${session.adapterError ? ` (${session.adapterError})` : ''}`);
+    write(format === 'json' ? JSON.stringify(transcript, null, 2) : transcriptToMarkdown(transcript));
+    return 0;
+}
+
+async function main(): Promise<number> {
+    const loaded = loadConfig(process.argv.slice(2), process.env, COMMAND);
+    if (loaded.help) {
+        console.log(usage(COMMAND));
+        return 0;
+    }
+    const { config, flags, positionals: [command, ...args] } = loaded;
+    initLog(config.logLevel, config.logFormat, true);
+    initAdapters(config.adapters);
+
+    if (!COMMANDS.includes(command)) {
+        throw new Error(command ? `Unknown command "${command}" (expected one of ${COMMANDS.join(', ')})` : 'No command given. Run with --help to list commands');
+    }
+    const format = (flags.format as string | undefined) ?? 'md';
+    if (!FORMATS.includes(format)) throw new Error(`--format must be one of ${FORMATS.join(', ')}`);
+    const timeoutText = (flags.timeout as string | undefined) ?? String(DEFAULT_TIMEOUT);
+    if (!/^\d+$/.test(timeoutText) || Number(timeoutText) < 1) throw new Error('--timeout must be a whole number of seconds');
+    const timeout = Number(timeoutText);
+
+    if (command === 'targets') {
+        const found = await discoverTargets(config);
+        if (flags.json) {
+            write(JSON.stringify(found, null, 2));
+            return 0;
+        }
+        if (found.length === 0) throw new Error(`No Antigravity window on ${config.cdpHost}:${formatPorts(config.cdpPorts)}`);
+        write(found.map(t => `${t.id}\t${t.workspace}\t${t.title}`).join('\n'));
+        return 0;
+    }
+
+    // The message is read before connecting, so a script piping it in fails fast
+    let text = '';
+    if (command === 'send') {
+        text = args.length === 1 && args[0] === '-' ? readFileSync(0, 'utf8') : args.join(' ');
+        if (!text.trim()) throw new Error('send needs the message text (or - to read it from stdin)');
+    } else if (args.length) {
+        throw new Error(`${command} takes no arguments`);
+    }
+
+    const session = await openSession(config, flags.target as string | undefined);
+    try {
+        switch (command) {
+            case 'send': {
+                const result = await session.send(text.replace(/\n$/, ''), flags.append === true);
+                if (!result.ok) throw new Error(`Could not send the message: ${result.reason}`);
+                log.info(`📤 Sent (${result.method})`, { method: result.method });
+                return flags.wait ? await waitIdle(session, timeout) : 0;
+            }
+            case 'snapshot':
+                return await snapshot(session, format);
+            default:
+                return await waitIdle(session, timeout);
+        }
+    } finally {
+        session.close();
+    }
+}
+
+main().then(
+    (status) => { process.exitCode = status; },
+    (err) => {
+        log.error('❌ Failed', { error: (err as Error).message });
+        process.exitCode = EXIT_FAILED;
+    }
+);
@@ -0,0 +1,279 @@
+import { parseArgs } from 'util';
+import { readFileSync, existsSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { DATA_DIR } from './paths.js';
+import { ChatAdapter, parseAdapters } from './adapters.js';
+import { LogLevel, LogFormat, LOG_LEVELS, LOG_FORMATS } from './log.js';
+
+// Settings, lowest to highest precedence: defaults, config file, environment, command line
+
+export interface Config {
+    port: number; // Web server
+    host: string; // Address the web server binds to
+    cdpHost: string; // Where Antigravity's debug ports are reachable (e.g. the local end of an SSH tunnel)
+    cdpPorts: number[];
+    pollInterval: number; // ms
+    fallbackPollInterval: number;
+    discoveryInterval: number;
+    httpTimeout: number;
+    cdpContextWait: number;
+    cdpCallTimeout: number;
+    terminalLines: number; // Terminal tail kept in snapshots
+    logLevel: LogLevel;
+    logFormat: LogFormat; // Console text or JSON lines
+    adapters: ChatAdapter[]; // Extra chat-surface adapters (config file only)
+    assetRoots: string[]; // Extra directories icons and fonts may be served from (config file only)
+    workspaces: Record<string, string>; // Window workspace name -> folder, for the change viewer (config file only)
+}
+
+export interface LoadedConfig {
+    config: Config;
+    file: string | null; // Config file that was read
+    help: boolean; // --help was given
+    flags: Record<string, string | boolean | undefined>; // The command's own flags
+    positionals: string[]; // Only accepted with a command
+}
+
+// A program other than the server that reads the same settings (cli.ts): its own flags,
+// positional arguments and help text, and defaults that differ from the server's
+export interface CommandSpec {
+    usage: string[]; // Lines before the options in --help
+    flags: Record<string, { type: 'string' | 'boolean'; short?: string; description: string }>;
+    defaults: Partial<Config>;
+}
+
+type Kind = 'port' | 'ports' | 'host' | 'ms' | 'count' | 'choice';
+
+interface Option {
+    key: Exclude<keyof Config, 'adapters' | 'assetRoots' | 'workspaces'>;
+    flag: string;
+    env: string;
+    kind: Kind;
+    min?: number;
+    choices?: readonly string[]; // For 'choice'
+    description: string;
+}
+
+export const DEFAULTS: Config = {
+    port: 3000,
+    host: '0.0.0.0',
+    cdpHost: '127.0.0.1',
+    cdpPorts: [9000, 9001, 9002, 9003],
+    pollInterval: 3000,
+    fallbackPollInterval: 30000,
+    discoveryInterval: 10000,
+    httpTimeout: 2000,
+    cdpContextWait: 200,
+    cdpCallTimeout: 5000,
+    terminalLines: 60,
+    logLevel: 'info',
+    logFormat: 'text',
+    adapters: [],
+    assetRoots: [],
+    workspaces: {}
+};
+
+const OPTIONS: Option[] = [
+    { key: 'port', flag: 'port', env: 'PORT', kind: 'port', description: 'Web server port' },
+    { key: 'host', flag: 'host', env: 'AG_MONITOR_HOST', kind: 'host', description: 'Address the web server binds to' },
+    { key: 'cdpHost', flag: 'cdp-host', env: 'AG_MONITOR_CDP_HOST', kind: 'host', description: 'Host where Antigravity debug ports are reachable' },
+    { key: 'cdpPorts', flag: 'cdp-ports', env: 'AG_MONITOR_CDP_PORTS', kind: 'ports', description: 'Debug ports to scan, e.g. 9000-9003 or 9000,9222' },
+    { key: 'pollInterval', flag: 'poll-interval', env: 'AG_MONITOR_POLL_INTERVAL', kind: 'ms', min: 250, description: 'Capture interval (ms) for windows without a change observer' },
+    { key: 'fallbackPollInterval', flag: 'fallback-poll-interval', env: 'AG_MONITOR_FALLBACK_POLL_INTERVAL', kind: 'ms', min: 1000, description: 'Safety capture interval (ms) for observed windows' },
+    { key: 'discoveryInterval', flag: 'discovery-interval', env: 'AG_MONITOR_DISCOVERY_INTERVAL', kind: 'ms', min: 1000, description: 'How often (ms) to look for new or closed windows' },
+    { key: 'httpTimeout', flag: 'http-timeout', env: 'AG_MONITOR_HTTP_TIMEOUT', kind: 'ms', min: 100, description: 'Timeout (ms) for CDP discovery requests' },
+    { key: 'cdpContextWait', flag: 'cdp-context-wait', env: 'AG_MONITOR_CDP_CONTEXT_WAIT', kind: 'ms', min: 0, description: 'Wait (ms) for execution contexts after connecting' },
+    { key: 'cdpCallTimeout', flag: 'cdp-call-timeout', env: 'AG_MONITOR_CDP_CALL_TIMEOUT', kind: 'ms', min: 500, description: 'Timeout (ms) for a single CDP call' },
+    { key: 'terminalLines', flag: 'terminal-lines', env: 'AG_MONITOR_TERMINAL_LINES', kind: 'count', min: 1, description: 'Terminal lines kept in snapshots' },
+    { key: 'logLevel', flag: 'log-level', env: 'AG_MONITOR_LOG_LEVEL', kind: 'choice', choices: LOG_LEVELS, description: `Least severe log level printed: ${LOG_LEVELS.join(', ')}` },
+    { key: 'logFormat', flag: 'log-format', env: 'AG_MONITOR_LOG_FORMAT', kind: 'choice', choices: LOG_FORMATS, description: 'Log output: text for the console, or json for one JSON object per line' }
+];
+
+const CONFIG_ENV = 'AG_MONITOR_CONFIG';
+const DEFAULT_CONFIG_FILE = join(DATA_DIR, 'config.json');
+const MAX_CDP_PORTS = 64; // Every port is probed on each discovery pass
+
+function parsePort(text: string): number {
+    const port = Number(text);
+    if (!/^\d+$/.test(text) || port < 1 || port > 65535) throw new Error(`"${text}" is not a port (1-65535)`);
+    return port;
+}
+
+// "9000-9003,9222" -> [9000, 9001, 9002, 9003, 9222]
+function parsePorts(text: string): number[] {
+    const ports = new Set<number>();
+    for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+        const range = /^(\d+)\s*-\s*(\d+)$/.exec(part);
+        if (!range) {
+            ports.add(parsePort(part));
+            continue;
+        }
+        const [first, last] = [parsePort(range[1]), parsePort(range[2])];
+        if (last < first) throw new Error(`range "${part}" runs backwards`);
+        if (last - first >= MAX_CDP_PORTS) throw new Error(`range "${part}" is larger than ${MAX_CDP_PORTS} ports`);
+        for (let port = first; port <= last; port++) ports.add(port);
+    }
+
+    if (ports.size === 0) throw new Error('no ports given');
+    if (ports.size > MAX_CDP_PORTS) throw new Error(`more than ${MAX_CDP_PORTS} ports`);
+    return [...ports];
+}
+
+function parseValue(option: Option, text: string): Config[keyof Config] {
+    switch (option.kind) {
+        case 'port':
+            return parsePort(text);
+        case 'ports':
+            return parsePorts(text);
+        case 'host':
+            if (!/^(\[[\da-fA-F:.]+\]|[\w.:-]+)$/.test(text)) throw new Error(`"${text}" is not a host name or IP address`);
+            return text.replace(/^\[(.*)\]$/, '$1');
+        case 'ms':
+        case 'count': {
+            const value = Number(text);
+            const min = option.min ?? 0;
+            if (!/^\d+$/.test(text) || value < min) {
+                throw new Error(`"${text}" must be a whole number${option.kind === 'ms' ? ' of milliseconds' : ''} of at least ${min}`);
+            }
+            return value;
+        }
+        case 'choice':
+            if (!option.choices!.includes(text)) throw new Error(`"${text}" must be one of ${option.choices!.join(', ')}`);
+            return text as Config[keyof Config];
+    }
+}
+
+// Config files are plain JSON with the Config keys; values may be numbers, strings or (for cdpPorts) arrays
+function readConfigFile(path: string, problems: string[]): Record<string, unknown> {
+    let data: unknown;
+    try {
+        data = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (err) {
+        problems.push(`${path}: ${(err as Error).message}`);
+        return {};
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        problems.push(`${path}: expected a JSON object`);
+        return {};
+    }
+
+    const known = new Set<string>([...OPTIONS.map(o => o.key), 'adapters', 'assetRoots', 'workspaces']);
+    for (const key of Object.keys(data)) {
+        if (!known.has(key)) problems.push(`${path}: unknown key "${key}" (expected one of ${[...known].join(', ')})`);
+    }
+    return data as Record<string, unknown>;
+}
+
+function fileValueToText(value: unknown): string | null {
+    if (typeof value === 'number' || typeof value === 'string') return String(value).trim();
+    if (Array.isArray(value) && value.every(v => typeof v === 'number' || typeof v === 'string')) return value.join(',');
+    return null;
+}
+
+export function usage(command?: CommandSpec): string {
+    const lines = [...command?.usage ?? ['Usage: ag-mobile-monitor [options]'], '', 'Options:'];
+    for (const [flag, spec] of Object.entries(command?.flags ?? {})) {
+        lines.push(`  ${spec.short ? `-${spec.short}, ` : ''}--${flag}${spec.type === 'string' ? ' <value>' : ''}`.padEnd(38) + spec.description);
+    }
+    lines.push(`  --config <file>`.padEnd(38) + `Config file (default ${DEFAULT_CONFIG_FILE}, env ${CONFIG_ENV})`);
+    for (const option of OPTIONS) {
+        const fallback = command?.defaults[option.key] ?? DEFAULTS[option.key];
+        lines.push(`  --${option.flag} <value>`.padEnd(38) + `${option.description} (default ${Array.isArray(fallback) ? formatPorts(fallback) : fallback}, env ${option.env})`);
+    }
+    lines.push(`  -h, --help`.padEnd(38) + 'Show this help');
+    return lines.join('\n');
+}
+
+// [9000, 9001, 9002, 9222] -> "9000-9002,9222"
+export function formatPorts(ports: number[]): string {
+    const sorted = [...ports].sort((a, b) => a - b);
+    const parts: string[] = [];
+    for (let i = 0; i < sorted.length; i++) {
+        let j = i;
+        while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+        parts.push(j > i ? `${sorted[i]}-${sorted[j]}` : String(sorted[i]));
+        i = j;
+    }
+    return parts.join(',');
+}
+
+// Merge every source and validate; all problems are reported at once
+export function loadConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env, command?: CommandSpec): LoadedConfig {
+    const problems: string[] = [];
+
+    const flags: Record<string, { type: 'string' | 'boolean'; short?: string }> = {
+        config: { type: 'string' },
+        help: { type: 'boolean', short: 'h' }
+    };
+    for (const option of OPTIONS) flags[option.flag] = { type: 'string' };
+    for (const [flag, { type, short }] of Object.entries(command?.flags ?? {})) flags[flag] = short ? { type, short } : { type };
+
+    let cli: Record<string, string | boolean | undefined> = {};
+    let positionals: string[] = [];
+    try {
+        ({ values: cli, positionals } = parseArgs({ args: argv, options: flags, strict: true, allowPositionals: command !== undefined }));
+    } catch (err) {
+        problems.push(`${(err as Error).message}. Run with --help to list options`);
+    }
+
+    const explicitFile = (cli.config as string | undefined) ?? env[CONFIG_ENV];
+    const file = explicitFile ? resolve(explicitFile) : existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : null;
+    let fileValues: Record<string, unknown> = {};
+    if (file && !existsSync(file)) {
+        problems.push(`Config file not found: ${file}`);
+    } else if (file) {
+        fileValues = readConfigFile(file, problems);
+    }
+
+    const config = { ...DEFAULTS, ...command?.defaults } as Record<keyof Config, Config[keyof Config]>;
+    for (const option of OPTIONS) {
+        // Highest precedence first
+        const sources: [string, string | null | undefined][] = [
+            [`--${option.flag}`, cli[option.flag] as string | undefined],
+            [option.env, env[option.env]],
+            [`${file}: ${option.key}`, option.key in fileValues ? fileValueToText(fileValues[option.key]) : undefined]
+        ];
+        const [source, text] = sources.find(([, value]) => value !== undefined) ?? [null, undefined];
+        if (source === null) continue;
+
+        if (text === null) {
+            problems.push(`${source}: expected a number or string`);
+            continue;
+        }
+        try {
+            config[option.key] = parseValue(option, text!.trim());
+        } catch (err) {
+            problems.push(`${source}: ${(err as Error).message}`);
+        }
+    }
+
+    if (file && fileValues.adapters !== undefined) {
+        config.adapters = parseAdapters(fileValues.adapters, file, problems);
+    }
+    if (file && fileValues.assetRoots !== undefined) {
+        const roots = fileValues.assetRoots;
+        if (Array.isArray(roots) && roots.every(r => typeof r === 'string' && r.trim())) {
+            config.assetRoots = roots.map(r => resolve(dirname(file), r));
+        } else {
+            problems.push(`${file}: "assetRoots" must be a list of directories`);
+        }
+    }
+    if (file && fileValues.workspaces !== undefined) {
+        const folders = fileValues.workspaces;
+        if (folders && typeof folders === 'object' && !Array.isArray(folders)
+            && Object.values(folders).every(f => typeof f === 'string' && f.trim())) {
+            config.workspaces = Object.fromEntries(Object.entries(folders as Record<string, string>)
+                .map(([name, folder]) => [name, resolve(dirname(file), folder)]));
+        } else {
+            problems.push(`${file}: "workspaces" must map workspace names to directories`);
+        }
+    }
+
+    if (problems.length) {
+        throw new Error(`Invalid configuration:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    const commandFlags = Object.fromEntries(Object.keys(command?.flags ?? {}).map(flag => [flag, cli[flag]]));
+    return { config: config as unknown as Config, file, help: cli.help === true, flags: commandFlags, positionals };
+}
@@ -0,0 +1,124 @@
+import { ChatAdapter, ChatControls } from './adapters.js';
+
+// Conversation controls: stop, new chat and the model/mode pickers, driven through the adapter's selectors
+
+export type ControlCommand = 'stop' | 'new_chat' | 'set_model' | 'set_mode' | 'list_models' | 'list_modes';
+
+export const CONTROL_COMMANDS: ControlCommand[] = ['stop', 'new_chat', 'set_model', 'set_mode', 'list_models', 'list_modes'];
+
+export interface ControlResult {
+    ok: boolean;
+    reason?: string; // not_supported | control_not_found | disabled | picker_not_opened | option_not_found | no_context | unknown_command | value_required | unknown_target
+    current?: string | null; // Selected model/mode (after the change, for set_*)
+    options?: string[]; // Picker entries, for list_* and option_not_found
+}
+
+export function isControlCommand(command: unknown): command is ControlCommand {
+    return typeof command === 'string' && (CONTROL_COMMANDS as string[]).includes(command);
+}
+
+// set_* commands need a value
+export function controlNeedsValue(command: ControlCommand): boolean {
+    return command === 'set_model' || command === 'set_mode';
+}
+
+// In-page helpers for the adapter's controls, spliced into CAPTURE_SCRIPT and controlFunction()
+export function controlTools(controls: ChatControls): string {
+    return `(() => {
+    const CONTROLS = ${JSON.stringify(controls)};
+    const visible = (el) => el.offsetParent !== null || el.getClientRects().length > 0;
+
+    // First non-empty line - picker entries often carry a description underneath
+    const label = (el) => ((el.innerText || el.getAttribute('aria-label') || el.title || '').split(String.fromCharCode(10))
+        .map(s => s.trim()).find(Boolean) || '').replace(/\\s+/g, ' ');
+
+    // Last visible match, lifted to its button
+    const find = (name) => {
+        const spec = CONTROLS[name];
+        if (!spec) return null;
+        const pattern = spec.text ? new RegExp(spec.text, 'i') : null;
+        const matches = [...document.querySelectorAll(spec.selector)]
+            .map(el => el.closest('button, [role="button"], a') || el)
+            .filter(el => visible(el) && (!pattern || pattern.test(label(el))));
+        return matches.at(-1) || null;
+    };
+
+    const current = (name) => {
+        try {
+            const el = find(name);
+            return el ? label(el) || null : null;
+        } catch (e) {
+            return null;
+        }
+    };
+
+    const options = () => [...document.querySelectorAll(CONTROLS.option)].filter(el => visible(el) && label(el));
+
+    return { CONTROLS, label, find, current, options };
+})()`;
+}
+
+// Runs one command in the page (Runtime.callFunctionOn with command and value);
+// null if the adapter's root isn't in this context
+export function controlFunction(adapter: ChatAdapter): string {
+    return `async function (command, value) {
+        if (!document.querySelector(${JSON.stringify(adapter.root)})) return null;
+        const tools = ${controlTools(adapter.controls)};
+        const wait = (ms) => new Promise(r => setTimeout(r, ms));
+        const closePicker = () => {
+            const target = document.activeElement || document.body;
+            target.dispatchEvent(new KeyboardEvent("keydown", { bubbles:true, key:"Escape", code:"Escape" }));
+        };
+        const disabled = (el) => !!el.disabled || el.getAttribute("aria-disabled") === "true";
+
+        const name = { stop: "stop", new_chat: "newChat", set_model: "model", list_models: "model", set_mode: "mode", list_modes: "mode" }[command];
+        if (!tools.CONTROLS[name]) return { ok:false, reason:"not_supported" };
+
+        let el;
+        try { el = tools.find(name); } catch (e) { return { ok:false, reason:"control_not_found" }; }
+        if (!el) return { ok:false, reason:"control_not_found" };
+        if (disabled(el)) return { ok:false, reason:"disabled" };
+
+        if (command === "stop" || command === "new_chat") {
+            el.click();
+            return { ok:true };
+        }
+
+        // Open the picker and wait for its entries to render
+        const before = tools.label(el);
+        el.click();
+        let entries = [];
+        for (let i = 0; i < 30 && !entries.length; i++) {
+            await wait(50);
+            entries = tools.options();
+        }
+        if (!entries.length) {
+            closePicker();
+            return { ok:false, reason:"picker_not_opened", current: before };
+        }
+
+        const labels = entries.map(tools.label);
+        if (command === "list_models" || command === "list_modes") {
+            closePicker();
+            return { ok:true, current: before, options: labels };
+        }
+
+        // Exact name first, then prefix, then substring
+        const wanted = String(value).trim().toLowerCase();
+        const index = [(l) => l === wanted, (l) => l.startsWith(wanted), (l) => l.includes(wanted)]
+            .map(test => labels.findIndex(l => test(l.toLowerCase())))
+            .find(i => i !== -1);
+        if (index === undefined) {
+            closePicker();
+            return { ok:false, reason:"option_not_found", current: before, options: labels };
+        }
+        if (disabled(entries[index])) {
+            closePicker();
+            return { ok:false, reason:"disabled", current: before, options: labels };
+        }
+
+        entries[index].click();
+        await new Promise(r => requestAnimationFrame(() => requestAnimationFrame(r)));
+        return { ok:true, current: tools.current(name) || labels[index] };
+    }`;
+}
@@ -0,0 +1,92 @@
+import { ChatAdapter } from './adapters.js';
+
+// Draft sync: the text waiting in the chat editor, read with every capture and
+// edited from the phone without submitting
+
+export type DraftMode = 'replace' | 'append';
+
+export const DRAFT_MAX_LENGTH = 100000;
+
+export interface DraftResult {
+    ok: boolean;
+    reason?: string; // editor_not_found | no_context | not_connected | no_adapter | invalid_mode | text_required | unknown_target
+    draft?: string; // Editor contents afterwards
+}
+
+export function isDraftMode(mode: unknown): mode is DraftMode {
+    return mode === 'replace' || mode === 'append';
+}
+
+// In-page helpers for the adapter's editor, spliced into CAPTURE_SCRIPT, injectMessage() and draftFunction().
+// Lexical keeps one block element per line, so lines are read block by block (innerText would add blank lines).
+export function draftTools(editorSelector: string): string {
+    return `(() => {
+    const NEWLINE = String.fromCharCode(10);
+
+    // Last visible editor (Antigravity supports message queuing even during generation)
+    const find = () => [...document.querySelectorAll(${JSON.stringify(editorSelector)})]
+        .filter(el => el.offsetParent !== null).at(-1) || null;
+
+    const read = (editor) => {
+        const blocks = [...editor.children];
+        const text = blocks.length
+            ? blocks.map(block => (block.innerText || '').replace(/\\n$/, '')).join(NEWLINE)
+            : editor.innerText || '';
+        return text.trim() ? text : '';
+    };
+
+    // Replace the contents, or add to the end separated by a space; input events keep the editor's state in step
+    const write = (editor, text, mode) => {
+        const existing = read(editor);
+        const insert = mode === 'append' && existing && !/\\s$/.test(existing) ? ' ' + text : text;
+
+        editor.focus();
+        if (mode === 'append') {
+            const range = document.createRange();
+            range.selectNodeContents(editor);
+            range.collapse(false);
+            const selection = window.getSelection();
+            selection.removeAllRanges();
+            selection.addRange(range);
+        } else {
+            document.execCommand?.("selectAll", false, null);
+            document.execCommand?.("delete", false, null);
+        }
+        if (!insert) return;
+
+        let inserted = false;
+        try { inserted = !!document.execCommand?.("insertText", false, insert); } catch (e) {}
+        if (!inserted) {
+            editor.textContent = mode === 'append' ? existing + insert : insert;
+            editor.dispatchEvent(new InputEvent("beforeinput", { bubbles:true, inputType:"insertText", data:insert }));
+            editor.dispatchEvent(new InputEvent("input", { bubbles:true, inputType:"insertText", data:insert }));
+        }
+    };
+
+    const current = () => {
+        try {
+            const editor = find();
+            return editor ? read(editor) : null;
+        } catch (e) {
+            return null;
+        }
+    };
+
+    return { find, read, write, current };
+})()`;
+}
+
+// Edits the draft without submitting (Runtime.callFunctionOn with text and mode);
+// null if the adapter's root isn't in this context
+export function draftFunction(adapter: ChatAdapter): string {
+    return `async function (text, mode) {
+        if (!document.querySelector(${JSON.stringify(adapter.root)})) return null;
+        const tools = ${draftTools(adapter.editor)};
+        const editor = tools.find();
+        if (!editor) return { ok:false, reason:"editor_not_found" };
+
+        tools.write(editor, text, mode);
+        await new Promise(r => requestAnimationFrame(() => requestAnimationFrame(r)));
+        return { ok:true, draft: tools.read(editor) };
+    }`;
+}
@@ -0,0 +1,258 @@
+import { mkdir, readdir, readFile, writeFile, stat, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { gzip, gunzip } from 'zlib';
+import { promisify } from 'util';
+import { DATA_DIR } from './paths.js';
+import { log } from './log.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const HISTORY_DIR = join(DATA_DIR, 'history');
+const HISTORY_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // Drop sessions idle for a week
+const HISTORY_MAX_BYTES = 500 * 1024 * 1024; // Drop oldest entries beyond this
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+// Types
+export interface HistorySnapshot { // Any captured snapshot - extra fields are stored as-is
+    html: string;
+    css: string;
+}
+
+export interface SessionInfo {
+    id: string;
+    targetId: string;
+    workspace: string;
+    title: string;
+    port: number;
+    startedAt: string;
+    lastAt: string;
+    count: number;
+}
+
+interface EntryRef {
+    seq: number;
+    t: number; // ms since epoch
+    file: string;
+}
+
+// On-disk entry: snapshot minus css, which is stored once per hash
+interface StoredEntry {
+    seq: number;
+    t: number;
+    cssHash: string;
+    snapshot: Omit<HistorySnapshot, 'css'>;
+}
+
+interface Session {
+    info: SessionInfo;
+    dir: string;
+    entries: EntryRef[] | null; // Loaded lazily for old sessions
+    cssHashes: Set<string>;
+}
+
+export interface HistoryEntry {
+    seq: number;
+    at: string;
+    prev: number | null;
+    next: number | null;
+    snapshot: HistorySnapshot;
+}
+
+// State
+const sessions = new Map<string, Session>();
+let writeChain: Promise<unknown> = Promise.resolve(); // Keep writes ordered
+
+function slug(text: string): string {
+    return text.replace(/[^\w.-]+/g, '_').slice(0, 40) || 'window';
+}
+
+// Entry files are named "<t>-<seq>.json.gz", so the directory listing is the index
+function parseEntryFile(file: string): EntryRef | null {
+    const match = /^(\d+)-(\d+)\.json\.gz$/.exec(file);
+    return match ? { t: Number(match[1]), seq: Number(match[2]), file } : null;
+}
+
+async function loadEntries(session: Session): Promise<EntryRef[]> {
+    if (session.entries) return session.entries;
+    const files = existsSync(session.dir) ? await readdir(session.dir) : [];
+    session.entries = files
+        .map(parseEntryFile)
+        .filter((e): e is EntryRef => e !== null)
+        .sort((a, b) => a.seq - b.seq);
+    return session.entries;
+}
+
+function saveMeta(session: Session): Promise<void> {
+    return writeFile(join(session.dir, 'meta.json'), JSON.stringify(session.info, null, 2));
+}
+
+async function dirSize(dir: string): Promise<number> {
+    if (!existsSync(dir)) return 0;
+    let total = 0;
+    for (const file of await readdir(dir)) {
+        total += (await stat(join(dir, file))).size;
+    }
+    return total;
+}
+
+// Apply retention: age first, then total size (oldest entries go first)
+async function prune(activeIds: Set<string>): Promise<void> {
+    const now = Date.now();
+    const ordered = [...sessions.values()].sort((a, b) => a.info.lastAt.localeCompare(b.info.lastAt));
+
+    for (const session of ordered) {
+        if (!activeIds.has(session.info.id) && now - Date.parse(session.info.lastAt) > HISTORY_MAX_AGE) {
+            await rm(session.dir, { recursive: true, force: true });
+            sessions.delete(session.info.id);
+        }
+    }
+
+    let total = 0;
+    for (const session of sessions.values()) total += await dirSize(session.dir);
+
+    for (const session of ordered) {
+        if (total <= HISTORY_MAX_BYTES) break;
+        if (!sessions.has(session.info.id)) continue;
+
+        const entries = await loadEntries(session);
+        while (entries.length > 1 && total > HISTORY_MAX_BYTES) {
+            const oldest = entries.shift()!;
+            const path = join(session.dir, oldest.file);
+            total -= (await stat(path)).size;
+            await rm(path, { force: true });
+        }
+
+        if (total > HISTORY_MAX_BYTES && !activeIds.has(session.info.id)) {
+            total -= await dirSize(session.dir);
+            await rm(session.dir, { recursive: true, force: true });
+            sessions.delete(session.info.id);
+        }
+    }
+}
+
+// Load existing sessions and start periodic pruning
+export async function initHistory(activeSessionIds: () => Set<string>): Promise<void> {
+    await mkdir(HISTORY_DIR, { recursive: true });
+
+    for (const id of await readdir(HISTORY_DIR)) {
+        const dir = join(HISTORY_DIR, id);
+        try {
+            const info = JSON.parse(await readFile(join(dir, 'meta.json'), 'utf8')) as SessionInfo;
+            sessions.set(info.id, { info, dir, entries: null, cssHashes: new Set() });
+        } catch { }
+    }
+
+    const runPrune = () => prune(activeSessionIds()).catch(err => log.error('History prune error', { error: (err as Error).message }));
+    await runPrune();
+    setInterval(runPrune, PRUNE_INTERVAL).unref();
+
+    log.info(`🗂️  History: ${sessions.size} session(s) in ${HISTORY_DIR}`, { sessions: sessions.size, dir: HISTORY_DIR });
+}
+
+// New session for a window we just started monitoring
+export function startSession(target: { id: string; workspace: string; title: string; port: number }): string {
+    const now = new Date();
+    const id = `${now.getTime()}-${slug(target.workspace)}`;
+    const session: Session = {
+        info: {
+            id,
+            targetId: target.id,
+            workspace: target.workspace,
+            title: target.title,
+            port: target.port,
+            startedAt: now.toISOString(),
+            lastAt: now.toISOString(),
+            count: 0
+        },
+        dir: join(HISTORY_DIR, id),
+        entries: [],
+        cssHashes: new Set()
+    };
+    sessions.set(id, session);
+    return id;
+}
+
+// Persist one distinct snapshot (writes are queued, never block capture)
+export function recordSnapshot(sessionId: string, snapshot: HistorySnapshot, cssHash: string): Promise<void> {
+    const session = sessions.get(sessionId);
+    if (!session) return Promise.resolve();
+
+    const t = Date.now();
+    const seq = session.info.count + 1;
+    session.info.count = seq;
+    session.info.lastAt = new Date(t).toISOString();
+
+    const task = writeChain.then(async () => {
+        await mkdir(session.dir, { recursive: true });
+
+        if (!session.cssHashes.has(cssHash)) {
+            const cssFile = join(session.dir, `css-${cssHash}.css.gz`);
+            if (!existsSync(cssFile)) await writeFile(cssFile, await gzipAsync(snapshot.css));
+            session.cssHashes.add(cssHash);
+        }
+
+        const { css: _css, ...rest } = snapshot;
+        const entry: StoredEntry = { seq, t, cssHash, snapshot: rest };
+        const file = `${t}-${seq}.json.gz`;
+        await writeFile(join(session.dir, file), await gzipAsync(JSON.stringify(entry)));
+        (await loadEntries(session)).push({ seq, t, file });
+        await saveMeta(session);
+    });
+
+    writeChain = task.catch(() => { });
+    return task;
+}
+
+export function listSessions(): SessionInfo[] {
+    return [...sessions.values()]
+        .map(s => s.info)
+        .sort((a, b) => b.lastAt.localeCompare(a.lastAt));
+}
+
+// Session info plus the timeline of entry timestamps
+export async function getTimeline(sessionId: string): Promise<{ session: SessionInfo; entries: { seq: number; at: string }[] } | null> {
+    const session = sessions.get(sessionId);
+    if (!session) return null;
+
+    const entries = await loadEntries(session);
+    return {
+        session: session.info,
+        entries: entries.map(e => ({ seq: e.seq, at: new Date(e.t).toISOString() }))
+    };
+}
+
+// Snapshot by sequence number, or the latest one at or before a time
+export async function getEntry(sessionId: string, query: { seq?: number; at?: number }): Promise<HistoryEntry | null> {
+    const session = sessions.get(sessionId);
+    if (!session) return null;
+
+    const entries = await loadEntries(session);
+    let index = -1;
+    if (query.seq !== undefined) {
+        index = entries.findIndex(e => e.seq === query.seq);
+    } else if (query.at !== undefined) {
+        for (let i = entries.length - 1; i >= 0; i--) {
+            if (entries[i].t <= query.at) { index = i; break; }
+        }
+    } else {
+        index = entries.length - 1;
+    }
+    if (index === -1) return null;
+
+    const ref = entries[index];
+    const stored = JSON.parse((await gunzipAsync(await readFile(join(session.dir, ref.file)))).toString('utf8')) as StoredEntry;
+    let css = '';
+    try {
+        css = (await gunzipAsync(await readFile(join(session.dir, `css-${stored.cssHash}.css.gz`)))).toString('utf8');
+    } catch { }
+
+    return {
+        seq: ref.seq,
+        at: new Date(ref.t).toISOString(),
+        prev: index > 0 ? entries[index - 1].seq : null,
+        next: index < entries.length - 1 ? entries[index + 1].seq : null,
+        snapshot: { ...stored.snapshot, css } as HistorySnapshot
+    };
+}
@@ -0,0 +1,22 @@
+// Library entry point for scripting Antigravity windows. The web server (server.ts) and the
+// command line client (cli.ts) are both built on these.
+
+export { AntigravitySession, openSession } from './session.js';
+export type { SessionOptions, SessionEvents, TargetStatus } from './session.js';
+export { discoverTargets, connectCDP, CDPError } from './cdp.js';
+export type { TargetInfo, CDPConnection, CDPContext, CDPFailure, CDPOptions } from './cdp.js';
+export type { Snapshot, SnapshotAction, InjectResult, Attachment, ActionResult } from './page.js';
+export { transcriptToMarkdown } from './transcript.js';
+export type { Transcript, TranscriptMessage, TranscriptBlock } from './transcript.js';
+export { terminalToText } from './terminal.js';
+export type { TerminalInfo, TerminalChunk, TerminalLine } from './terminal.js';
+export type { AgentState, AgentStateChange } from './agent.js';
+export { CONTROL_COMMANDS } from './controls.js';
+export type { ControlCommand, ControlResult } from './controls.js';
+export type { DraftMode, DraftResult } from './draft.js';
+export { initAdapters, ANTIGRAVITY_ADAPTER } from './adapters.js';
+export type { ChatAdapter, ChatControls, ControlSelector } from './adapters.js';
+export { loadConfig, DEFAULTS } from './config.js';
+export type { Config } from './config.js';
+export { initLog } from './log.js';
+export type { LogLevel, LogFormat } from './log.js';
@@ -0,0 +1,43 @@
+// Leveled logging: readable lines on the desktop console, or one JSON object per line for log collectors
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'text' | 'json';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_FORMATS: LogFormat[] = ['text', 'json'];
+
+type Fields = Record<string, unknown>;
+
+// State
+let minLevel: LogLevel = 'info';
+let format: LogFormat = 'text';
+let stderrOnly = false;
+
+// With onlyStderr, stdout is left to a command's own output (cli.ts)
+export function initLog(level: LogLevel, logFormat: LogFormat, onlyStderr = false): void {
+    minLevel = level;
+    format = logFormat;
+    stderrOnly = onlyStderr;
+}
+
+function write(level: LogLevel, msg: string, fields: Fields = {}): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) return;
+    const stream = stderrOnly || level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+
+    if (format === 'json') {
+        // The emoji and blank lines that lead console messages mean nothing to a collector
+        const text = msg.replace(/^[^\p{L}\p{N}]+/u, '');
+        stream.write(JSON.stringify({ time: new Date().toISOString(), level, msg: text, ...fields }) + '\n');
+        return;
+    }
+    stream.write(`${msg}${fields.error === undefined ? '' : `: ${fields.error}`}\n`);
+}
+
+// Message text reads on its own in the console; fields carry the same facts for JSON output.
+// An "error" field is appended to the text line.
+export const log = {
+    debug: (msg: string, fields?: Fields) => write('debug', msg, fields),
+    info: (msg: string, fields?: Fields) => write('info', msg, fields),
+    warn: (msg: string, fields?: Fields) => write('warn', msg, fields),
+    error: (msg: string, fields?: Fields) => write('error', msg, fields)
+};
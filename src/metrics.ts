@@ -0,0 +1,127 @@
+// In-memory metrics rendered in the Prometheus text exposition format (GET /metrics)
+
+type Labels = Record<string, string>;
+
+interface Series {
+    labels: Labels;
+    value: number;
+    buckets?: number[]; // Histograms: cumulative counts per upper bound
+    sum?: number;
+}
+
+interface Metric {
+    name: string;
+    help: string;
+    type: 'counter' | 'gauge' | 'histogram';
+    bounds: number[]; // Histogram bucket upper bounds
+    series: Map<string, Series>;
+    collect?: () => [Labels, number][]; // Gauges read at scrape time
+}
+
+export interface Counter {
+    inc(labels?: Labels, by?: number): void;
+}
+
+export interface Gauge {
+    set(labels: Labels, value: number): void;
+}
+
+export interface Histogram {
+    observe(labels: Labels, value: number): void;
+}
+
+// State
+const metrics: Metric[] = [];
+
+function register(name: string, help: string, type: Metric['type'], bounds: number[] = []): Metric {
+    const metric: Metric = { name, help, type, bounds, series: new Map() };
+    metrics.push(metric);
+    return metric;
+}
+
+// Series for a label set, created on first use
+function seriesFor(metric: Metric, labels: Labels): Series {
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    let series = metric.series.get(key);
+    if (!series) {
+        series = { labels, value: 0 };
+        if (metric.type === 'histogram') {
+            series.buckets = metric.bounds.map(() => 0);
+            series.sum = 0;
+        }
+        metric.series.set(key, series);
+    }
+    return series;
+}
+
+export function counter(name: string, help: string): Counter {
+    const metric = register(name, help, 'counter');
+    return {
+        inc: (labels = {}, by = 1) => { seriesFor(metric, labels).value += by; }
+    };
+}
+
+// With collect, the values are read when scraped and set() isn't needed
+export function gauge(name: string, help: string, collect?: () => [Labels, number][]): Gauge {
+    const metric = register(name, help, 'gauge');
+    metric.collect = collect;
+    return {
+        set: (labels, value) => { seriesFor(metric, labels).value = value; }
+    };
+}
+
+export function histogram(name: string, help: string, bounds: number[]): Histogram {
+    const metric = register(name, help, 'histogram', [...bounds].sort((a, b) => a - b));
+    return {
+        observe: (labels, value) => {
+            const series = seriesFor(metric, labels);
+            series.value++;
+            series.sum! += value;
+            metric.bounds.forEach((bound, i) => { if (value <= bound) series.buckets![i]++; });
+        }
+    };
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+    return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+    return String(value);
+}
+
+export function renderMetrics(): string {
+    const lines: string[] = [];
+    for (const metric of metrics) {
+        lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+        lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+        if (metric.collect) {
+            for (const [labels, value] of metric.collect()) {
+                lines.push(`${metric.name}${formatLabels(labels)} ${formatValue(value)}`);
+            }
+            continue;
+        }
+
+        for (const series of metric.series.values()) {
+            if (metric.type !== 'histogram') {
+                lines.push(`${metric.name}${formatLabels(series.labels)} ${formatValue(series.value)}`);
+                continue;
+            }
+            metric.bounds.forEach((bound, i) => {
+                lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${series.buckets![i]}`);
+            });
+            lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.value}`);
+            lines.push(`${metric.name}_sum${formatLabels(series.labels)} ${formatValue(series.sum!)}`);
+            lines.push(`${metric.name}_count${formatLabels(series.labels)} ${series.value}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,194 @@
+import type { Express, Request, Response } from 'express';
+import webpush, { PushSubscription } from 'web-push';
+import { spawn } from 'child_process';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { DATA_DIR } from './paths.js';
+import { log } from './log.js';
+import type { AgentState } from './agent.js';
+
+const VAPID_FILE = join(DATA_DIR, 'vapid.json');
+const SUBSCRIPTIONS_FILE = join(DATA_DIR, 'push-subscriptions.json');
+const NOTIFY_COOLDOWN = 60 * 1000; // Same window + state notifies at most once a minute
+const WEBHOOK_TIMEOUT = 5000;
+
+// Types
+export interface StateEvent {
+    targetId: string;
+    workspace: string;
+    state: AgentState;
+    previous: AgentState | null;
+    detail: string | null;
+    timestamp: string;
+}
+
+interface StoredSubscription {
+    deviceId: string | null;
+    subscription: PushSubscription;
+}
+
+interface VapidKeys {
+    publicKey: string;
+    privateKey: string;
+}
+
+interface Notification {
+    title: string;
+    body: string;
+}
+
+// State
+let vapidKeys: VapidKeys | null = null;
+let subscriptions: StoredSubscription[] = [];
+const lastSent = new Map<string, number>(); // "<target>:<state>" -> ms
+const webhookUrl = process.env.NOTIFY_WEBHOOK_URL || null;
+const desktopEnabled = process.env.NOTIFY_DESKTOP === '1';
+
+function saveSubscriptions(): void {
+    mkdirSync(DATA_DIR, { recursive: true });
+    writeFileSync(SUBSCRIPTIONS_FILE, JSON.stringify(subscriptions, null, 2), { mode: 0o600 });
+}
+
+// Only transitions worth looking up from lunch for
+function describe(event: StateEvent): Notification | null {
+    switch (event.state) {
+        case 'idle':
+            return event.previous === 'generating'
+                ? { title: '✅ Agent finished', body: event.workspace }
+                : null;
+        case 'waiting_approval':
+            return { title: '✋ Approval needed', body: `${event.workspace}: ${event.detail ?? ''}`.trim() };
+        case 'error':
+            return { title: '⚠️ Agent error', body: `${event.workspace}: ${event.detail ?? ''}`.trim() };
+        default:
+            return null;
+    }
+}
+
+async function sendWebPush(event: StateEvent, notification: Notification): Promise<void> {
+    if (!vapidKeys || subscriptions.length === 0) return;
+
+    const payload = JSON.stringify({ ...notification, tag: event.targetId, state: event.state, url: '/' });
+    const expired: string[] = [];
+
+    await Promise.all(subscriptions.map(async ({ subscription }) => {
+        try {
+            await webpush.sendNotification(subscription, payload, { TTL: 300 });
+        } catch (err) {
+            const status = (err as { statusCode?: number }).statusCode;
+            // Browser dropped the subscription
+            if (status === 404 || status === 410) expired.push(subscription.endpoint);
+            else log.error('Web Push error', { status, error: (err as Error).message });
+        }
+    }));
+
+    if (expired.length) {
+        subscriptions = subscriptions.filter(s => !expired.includes(s.subscription.endpoint));
+        saveSubscriptions();
+    }
+}
+
+async function sendWebhook(event: StateEvent, notification: Notification): Promise<void> {
+    if (!webhookUrl) return;
+
+    try {
+        const res = await fetch(webhookUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...event, ...notification }),
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT)
+        });
+        if (!res.ok) log.error('Webhook error', { status: res.status, error: `HTTP ${res.status}` });
+    } catch (err) {
+        log.error('Webhook error', { error: (err as Error).message });
+    }
+}
+
+function sendDesktop(notification: Notification): void {
+    if (!desktopEnabled) return;
+
+    const child = spawn('notify-send', ['--app-name=Antigravity Monitor', notification.title, notification.body], { stdio: 'ignore' });
+    child.on('error', (err) => log.error('notify-send error', { error: err.message }));
+}
+
+// Load or generate VAPID keys and stored push subscriptions
+export function initNotifications(): void {
+    mkdirSync(DATA_DIR, { recursive: true });
+
+    try {
+        if (existsSync(VAPID_FILE)) {
+            vapidKeys = JSON.parse(readFileSync(VAPID_FILE, 'utf8')) as VapidKeys;
+        } else {
+            vapidKeys = webpush.generateVAPIDKeys();
+            writeFileSync(VAPID_FILE, JSON.stringify(vapidKeys, null, 2), { mode: 0o600 });
+        }
+        webpush.setVapidDetails(process.env.VAPID_SUBJECT || 'mailto:ag-mobile-monitor@localhost', vapidKeys.publicKey, vapidKeys.privateKey);
+
+        if (existsSync(SUBSCRIPTIONS_FILE)) {
+            subscriptions = JSON.parse(readFileSync(SUBSCRIPTIONS_FILE, 'utf8')) as StoredSubscription[];
+        }
+    } catch (err) {
+        vapidKeys = null;
+        log.warn('Web Push disabled', { error: (err as Error).message });
+    }
+
+    const sinks = [
+        vapidKeys && `web push (${subscriptions.length} subscription(s))`,
+        webhookUrl && 'webhook',
+        desktopEnabled && 'notify-send'
+    ].filter(Boolean);
+    log.info(`🔔 Notifications: ${sinks.join(', ') || 'none'}`, { sinks });
+}
+
+// Fan a state change out to every configured sink
+export function notifyStateChange(event: StateEvent): void {
+    const notification = describe(event);
+    if (!notification) return;
+
+    const key = `${event.targetId}:${event.state}`;
+    const now = Date.now();
+    if (now - (lastSent.get(key) ?? 0) < NOTIFY_COOLDOWN) return;
+    lastSent.set(key, now);
+
+    log.info(`🔔 ${notification.title}: ${notification.body}`, { target: event.targetId, state: event.state });
+    sendWebPush(event, notification);
+    sendWebhook(event, notification);
+    sendDesktop(notification);
+}
+
+// Forget the push subscriptions of a revoked device
+export function removeDeviceSubscriptions(deviceId: string): void {
+    const before = subscriptions.length;
+    subscriptions = subscriptions.filter(s => s.deviceId !== deviceId);
+    if (subscriptions.length !== before) saveSubscriptions();
+}
+
+// Web Push subscription routes (register behind auth)
+export function registerPushRoutes(app: Express): void {
+    app.get('/api/push/key', (_req: Request, res: Response) => {
+        if (!vapidKeys) {
+            return res.status(503).json({ error: 'Web Push not available' });
+        }
+        res.json({ publicKey: vapidKeys.publicKey });
+    });
+
+    app.post('/api/push/subscribe', (req: Request, res: Response) => {
+        const { subscription } = req.body as { subscription?: PushSubscription };
+        if (!subscription?.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+            return res.status(400).json({ error: 'Invalid subscription' });
+        }
+
+        const deviceId = (res.locals.device as { id: string } | undefined)?.id ?? null;
+        subscriptions = subscriptions.filter(s => s.subscription.endpoint !== subscription.endpoint);
+        subscriptions.push({ deviceId, subscription });
+        saveSubscriptions();
+        res.json({ success: true });
+    });
+
+    app.delete('/api/push/subscribe', (req: Request, res: Response) => {
+        const { endpoint } = req.body as { endpoint?: string };
+        subscriptions = subscriptions.filter(s => s.subscription.endpoint !== endpoint);
+        saveSubscriptions();
+        res.json({ success: true });
+    });
+}
@@ -0,0 +1,241 @@
+import { randomBytes } from 'crypto';
+
+// Outbound message queue: one message at a time per window, retried while the
+// editor is missing, and only "delivered" once it shows up in a later snapshot.
+
+const INJECT_MAX_ATTEMPTS = 3;
+const INJECT_RETRY_DELAY = 2000;
+export const DELIVERY_TIMEOUT = 60 * 1000; // Give up waiting for the message to appear
+const MATCH_LENGTH = 80; // Leading characters compared against the snapshot
+const MESSAGE_HISTORY = 100; // Settled messages kept for status queries
+
+// Failures worth retrying - the page may just be mid-render
+const RETRYABLE = new Set(['editor_not_found', 'no_context', 'not_connected', 'no_adapter']);
+
+// Types
+export type MessageStatus = 'queued' | 'injecting' | 'sent' | 'delivered' | 'failed';
+
+export interface OutboundMessage {
+    id: string;
+    targetId: string;
+    text: string;
+    append: boolean; // Added after whatever is already typed in the editor
+    status: MessageStatus;
+    attempts: number;
+    method: string | null; // How the submit was triggered
+    reason: string | null; // Why it failed
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface InjectOutcome {
+    ok: boolean;
+    method?: string;
+    reason?: string;
+}
+
+export interface OutboxHooks {
+    inject: (targetId: string, text: string, append: boolean) => Promise<InjectOutcome>;
+    currentHtml: (targetId: string) => string | null;
+    onStatus: (message: OutboundMessage) => void;
+}
+
+interface Tracking {
+    message: OutboundMessage;
+    needle: string;
+    baseline: number; // Occurrences already on screen when sent
+    deadline: number;
+}
+
+// State
+let hooks: OutboxHooks | null = null;
+const messages = new Map<string, OutboundMessage>();
+const queues = new Map<string, OutboundMessage[]>(); // targetId -> waiting messages
+const busy = new Set<string>(); // targets currently injecting
+const awaiting = new Map<string, Tracking>(); // sent, waiting for a snapshot
+const waiters = new Map<string, ((m: OutboundMessage) => void)[]>();
+
+function normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+// Snapshot HTML as plain text, close enough for substring matching
+function htmlToText(html: string): string {
+    return normalize(html
+        .replace(/<(style|script)[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&'));
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+    if (!needle) return 0; // indexOf('') matches everywhere and never advances
+    let count = 0;
+    for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) count++;
+    return count;
+}
+
+// Times the start of a message shows up in snapshot HTML
+export function countInSnapshot(html: string, text: string): number {
+    return countOccurrences(htmlToText(html), normalize(text).slice(0, MATCH_LENGTH));
+}
+
+function setStatus(message: OutboundMessage, status: MessageStatus, extra: Partial<OutboundMessage> = {}): void {
+    Object.assign(message, extra, { status, updatedAt: new Date().toISOString() });
+    hooks?.onStatus(message);
+
+    if (status === 'delivered' || status === 'failed') {
+        waiters.get(message.id)?.forEach(resolve => resolve(message));
+        waiters.delete(message.id);
+        trimHistory();
+    }
+}
+
+function trimHistory(): void {
+    for (const [id, message] of messages) {
+        if (messages.size <= MESSAGE_HISTORY) break;
+        if (message.status === 'delivered' || message.status === 'failed') messages.delete(id);
+    }
+}
+
+async function processQueue(targetId: string): Promise<void> {
+    if (!hooks || busy.has(targetId)) return;
+    busy.add(targetId);
+
+    try {
+        const queue = queues.get(targetId) || [];
+        while (queue.length) {
+            const message = queue.shift()!;
+            await deliver(message);
+        }
+    } finally {
+        busy.delete(targetId);
+    }
+}
+
+async function deliver(message: OutboundMessage): Promise<void> {
+    const needle = normalize(message.text).slice(0, MATCH_LENGTH);
+
+    while (message.attempts < INJECT_MAX_ATTEMPTS) {
+        message.attempts++;
+        setStatus(message, 'injecting');
+
+        const html = hooks!.currentHtml(message.targetId);
+        const baseline = html ? countOccurrences(htmlToText(html), needle) : 0;
+
+        let result: InjectOutcome;
+        try {
+            result = await hooks!.inject(message.targetId, message.text, message.append);
+        } catch (err) {
+            result = { ok: false, reason: (err as Error).message };
+        }
+
+        if (result.ok) {
+            awaiting.set(message.id, { message, needle, baseline, deadline: Date.now() + DELIVERY_TIMEOUT });
+            setStatus(message, 'sent', { method: result.method ?? null, reason: null });
+            return;
+        }
+
+        const reason = result.reason ?? 'unknown';
+        if (!RETRYABLE.has(reason) || message.attempts >= INJECT_MAX_ATTEMPTS) {
+            setStatus(message, 'failed', { reason });
+            return;
+        }
+
+        setStatus(message, 'queued', { reason });
+        await new Promise(r => setTimeout(r, INJECT_RETRY_DELAY));
+    }
+}
+
+export function initOutbox(outboxHooks: OutboxHooks): void {
+    hooks = outboxHooks;
+}
+
+// Queue a message for a window; returns immediately. Blank text has nothing to wait for in snapshots.
+export function enqueue(targetId: string, text: string, append = false): OutboundMessage {
+    if (!text.trim()) throw new Error('Message is empty');
+    const now = new Date().toISOString();
+    const message: OutboundMessage = {
+        id: randomBytes(6).toString('hex'),
+        targetId,
+        text,
+        append,
+        status: 'queued',
+        attempts: 0,
+        method: null,
+        reason: null,
+        createdAt: now,
+        updatedAt: now
+    };
+    messages.set(message.id, message);
+
+    const queue = queues.get(targetId) || [];
+    queue.push(message);
+    queues.set(targetId, queue);
+    hooks?.onStatus(message);
+
+    processQueue(targetId);
+    return message;
+}
+
+export function getMessage(id: string): OutboundMessage | undefined {
+    return messages.get(id);
+}
+
+export function listMessages(targetId?: string): OutboundMessage[] {
+    return [...messages.values()].filter(m => !targetId || m.targetId === targetId);
+}
+
+// Called with each new snapshot: sent messages that now appear are delivered
+export function confirmDeliveries(targetId: string, html: string): void {
+    if (awaiting.size === 0) return;
+
+    const now = Date.now();
+    let text: string | null = null;
+
+    for (const [id, tracking] of awaiting) {
+        if (tracking.message.targetId !== targetId) continue;
+
+        text ??= htmlToText(html);
+        if (countOccurrences(text, tracking.needle) > tracking.baseline) {
+            awaiting.delete(id);
+            setStatus(tracking.message, 'delivered');
+        } else if (now > tracking.deadline) {
+            awaiting.delete(id);
+            setStatus(tracking.message, 'failed', { reason: 'not_confirmed' });
+        }
+    }
+}
+
+// Expire sent messages for windows that stopped producing snapshots
+export function expireDeliveries(): void {
+    const now = Date.now();
+    for (const [id, tracking] of awaiting) {
+        if (now > tracking.deadline) {
+            awaiting.delete(id);
+            setStatus(tracking.message, 'failed', { reason: 'not_confirmed' });
+        }
+    }
+}
+
+// Resolves once the message is delivered or failed (or the timeout passes)
+export function waitForSettle(id: string, timeout: number): Promise<OutboundMessage | undefined> {
+    const message = messages.get(id);
+    if (!message || message.status === 'delivered' || message.status === 'failed') {
+        return Promise.resolve(message);
+    }
+
+    return new Promise(resolve => {
+        const timer = setTimeout(() => resolve(messages.get(id)), timeout);
+        const list = waiters.get(id) || [];
+        list.push((m) => {
+            clearTimeout(timer);
+            resolve(m);
+        });
+        waiters.set(id, list);
+    });
+}
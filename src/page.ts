@@ -0,0 +1,642 @@
+import { CDPConnection, TargetInfo, contextFailed } from './cdp.js';
+import { ChatAdapter, adaptersForTarget } from './adapters.js';
+import { AgentSignals } from './agent.js';
+import { transcriptScript, Transcript } from './transcript.js';
+import { terminalTools, terminalListScript, TerminalChunk, TerminalInfo, isTerminalId, terminalReadScript } from './terminal.js';
+import { controlTools, controlFunction, ControlCommand, ControlResult } from './controls.js';
+import { rewriteAssetUrls } from './assets.js';
+import { DraftMode, DraftResult, draftTools, draftFunction } from './draft.js';
+import { sanitizeHtml, scopeCss } from './sanitize.js';
+import { counter } from './metrics.js';
+
+// What can be done to one window's chat over its CDP connection. Each script runs in every
+// execution context until one holds the adapter's chat root.
+
+export const SNAPSHOT_SCOPE = '#chatContent'; // Client element captured HTML is rendered into; CSS is scoped under it
+export const CHANGE_BINDING = '__agSnapshotChanged'; // Runtime.addBinding name the page calls on DOM changes
+
+// Types
+export interface Snapshot {
+    html: string;
+    css: string;
+    backgroundColor: string;
+    color: string;
+    fontFamily: string;
+    error?: string;
+    // Theme fields
+    themeClass?: string;
+    themeAttr?: string;
+    colorScheme?: string;
+    bodyBg?: string;
+    bodyColor?: string;
+    // Clickable buttons tagged with data-ag-action-id in html
+    actions?: SnapshotAction[];
+    // Picker labels, when the adapter knows where they are
+    model?: string | null;
+    mode?: string | null;
+    // Unsent text in the chat editor; null when no editor is visible
+    draft?: string | null;
+    // Hints for agent state detection
+    agentSignals?: AgentSignals;
+}
+
+export interface SnapshotAction {
+    id: string;
+    label: string;
+    disabled: boolean;
+}
+
+// Theme-related Snapshot fields, resent only when their hash changes
+export type SnapshotTheme = Pick<Snapshot, 'backgroundColor' | 'color' | 'fontFamily' | 'themeClass' | 'themeAttr' | 'colorScheme' | 'bodyBg' | 'bodyColor'>;
+
+export interface InjectResult {
+    ok: boolean;
+    method?: string;
+    reason?: string;
+}
+
+export interface Attachment {
+    name: string;
+    type: string;
+    data: string; // base64
+}
+
+export interface ActionResult {
+    ok: boolean;
+    label?: string;
+    reason?: string; // not_found | disabled | no_context | unknown_target
+}
+
+const injectResults = counter('ag_inject_results_total', 'Message and attachment injections by method (on success) or reason (on failure)');
+
+export function countInject<T extends InjectResult>(operation: 'message' | 'attachments' | 'draft', result: T): T {
+    injectResults.inc({ operation, ok: String(result.ok), method: result.method ?? '', reason: result.reason ?? '' });
+    return result;
+}
+
+// Simple hash function
+export function hashString(str: string): string {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+        const char = str.charCodeAt(i);
+        hash = ((hash << 5) - hash) + char;
+        hash = hash & hash;
+    }
+    return hash.toString(36);
+}
+
+export function snapshotTheme(snapshot: Snapshot): SnapshotTheme {
+    const { backgroundColor, color, fontFamily, themeClass, themeAttr, colorScheme, bodyBg, bodyColor } = snapshot;
+    return { backgroundColor, color, fontFamily, themeClass, themeAttr, colorScheme, bodyBg, bodyColor };
+}
+
+// Stylesheet text -> scoped form, most recently used last. The live stylesheet rarely changes between captures
+// and scoping a workbench's worth takes a while, so history views must not push it out.
+const SCOPED_CSS_CACHE = 4;
+const scopedCss = new Map<string, string>();
+
+// Strip anything executable from captured HTML and confine its CSS to the snapshot container
+export function sanitizeSnapshot(html: string, css: string): { html: string; css: string } {
+    let scoped = scopedCss.get(css);
+    if (scoped === undefined) {
+        scoped = scopeCss(css, SNAPSHOT_SCOPE);
+        if (scopedCss.size >= SCOPED_CSS_CACHE) scopedCss.delete(scopedCss.keys().next().value!);
+    }
+    scopedCss.delete(css);
+    scopedCss.set(css, scoped);
+    return { html: sanitizeHtml(html, SNAPSHOT_SCOPE), css: scoped };
+}
+
+// Capture chat snapshot
+export async function captureSnapshot(cdp: CDPConnection, adapter: ChatAdapter, terminalLines: number): Promise<Snapshot | null> {
+    const CAPTURE_SCRIPT = `(() => {
+        const cascade = document.querySelector(${JSON.stringify(adapter.root)});
+        if (!cascade) return { error: 'chat root not found' };
+        
+        const cascadeStyles = window.getComputedStyle(cascade);
+        const clone = cascade.cloneNode(true);
+        clone.setAttribute('data-ag-root', ${JSON.stringify(adapter.name)});
+        
+        // Tag actionable buttons with stable IDs and remember the live element,
+        // so /action can click the real button later. Clone and original share
+        // document order, so the i-th match in each is the same button.
+        const registry = window.__agActions = window.__agActions || { nextId: 1, ids: new WeakMap(), byId: new Map() };
+        const ACTION_LABEL = /^(accept|reject|run|stop|cancel|allow|deny|approve|retry|continue|always allow|accept all|reject all|skip)\\b/i;
+        const actions = [];
+        const liveButtons = cascade.querySelectorAll('button, [role="button"]');
+        const clonedButtons = clone.querySelectorAll('button, [role="button"]');
+        liveButtons.forEach((el, i) => {
+            const label = (el.innerText || el.getAttribute('aria-label') || el.title || '').trim().replace(/\\s+/g, ' ');
+            if (!label || !ACTION_LABEL.test(label) || el.offsetParent === null) return;
+            let id = registry.ids.get(el);
+            if (!id) {
+                id = 'a' + registry.nextId++;
+                registry.ids.set(el, id);
+                registry.byId.set(id, new WeakRef(el));
+            }
+            clonedButtons[i]?.setAttribute('data-ag-action-id', id);
+            actions.push({ id, label: label.slice(0, 60), disabled: !!el.disabled || el.getAttribute('aria-disabled') === 'true' });
+        });
+        for (const [id, ref] of registry.byId) {
+            const el = ref.deref();
+            if (!el || !el.isConnected) registry.byId.delete(id);
+        }
+        
+        const inputArea = ${JSON.stringify(adapter.inputArea)};
+        const inputContainer = inputArea && clone.querySelector(${JSON.stringify(adapter.editor)})?.closest(inputArea);
+        if (inputContainer && inputContainer !== clone) inputContainer.remove();
+        
+        // Render terminals from the xterm buffer with their colors (WebGL canvas can't be captured).
+        // The snapshot keeps the tail; /api/terminals serves the full scrollback.
+        const terminalTools = ${terminalTools(adapter.root)};
+        const terminalContainers = clone.querySelectorAll('.terminal.xterm');
+        const originalTerminals = cascade.querySelectorAll('.terminal.xterm');
+        
+        originalTerminals.forEach((originalTerminal, i) => {
+            try {
+                const clonedTerminal = terminalContainers[i];
+                if (!clonedTerminal) return;
+                
+                // Find xterm instance via wrapper.xterm property
+                const wrapper = originalTerminal.closest('.terminal-wrapper');
+                const term = wrapper?.xterm;
+                if (term && term.buffer && term.buffer.active) {
+                    const { total, lines } = terminalTools.read(term, 0, ${terminalLines});
+                    const theme = term.options?.theme || {};
+
+                    const pre = document.createElement('pre');
+                    pre.innerHTML = lines.map(l => l.html).join(String.fromCharCode(10));
+                    pre.setAttribute('data-ag-terminal-id', terminalTools.idFor(wrapper));
+                    if (total > lines.length) pre.setAttribute('data-ag-terminal-hidden', String(total - lines.length));
+                    // Reset everything on the pre
+                    pre.style.cssText = 'display:block; margin:0; padding:8px 12px; font-family:monospace; font-size:12px; line-height:1.4; overflow-x:auto; white-space:pre-wrap; word-break:break-all; border:none; width:100%; box-sizing:border-box;';
+                    pre.style.background = theme.background || '#181818';
+                    pre.style.color = theme.foreground || '#d4d4d4';
+                    
+                    // AGGRESSIVE REPLACEMENT:
+                    // Find the wrapper in the CLONED DOM and replace its ENTIRE content with our pre.
+                    // This kills all xterm layout issues, scrollbars, viewports, etc.
+                    const clonedWrapper = clonedTerminal.closest('.terminal-wrapper') || clonedTerminal.parentNode;
+                    
+                    if (clonedWrapper) {
+                        // Clear everything
+                        clonedWrapper.innerHTML = '';
+                        clonedWrapper.appendChild(pre);
+                        
+                        // Reset wrapper styles to just fit content
+                        // @ts-ignore
+                        clonedWrapper.style.height = 'auto';
+                        // @ts-ignore
+                        clonedWrapper.style.minHeight = '0';
+                        // @ts-ignore
+                        clonedWrapper.style.display = 'block';
+                        // @ts-ignore
+                        clonedWrapper.style.padding = '0';
+                        // @ts-ignore
+                        clonedWrapper.className = 'terminal-output-captured'; // Remove conflicting classes
+                    }
+                    
+                    // Also clean up the parent component-shared-terminal if it exists
+                    const termContainer = clonedWrapper.parentNode;
+                    if (termContainer && termContainer.className.includes('component-shared-terminal')) {
+                         // @ts-ignore
+                         termContainer.style.height = 'auto';
+                         // @ts-ignore
+                         termContainer.style.minHeight = '0';
+                         // @ts-ignore
+                         termContainer.style.display = 'block';
+                    }
+                }
+            } catch (e) { }
+        });
+        
+        // Also try to remove any remaining canvases (they'll be empty anyway)
+        clone.querySelectorAll('canvas').forEach(c => c.remove());
+        
+        const html = clone.outerHTML;
+        
+        // Relative url()s are resolved against their stylesheet, so fonts and images can be cached
+        const resolveUrls = (text, base) => !base ? text : text.replace(/url\\(\\s*(['"]?)([^'")]+)\\1\\s*\\)/g, (match, quote, url) => {
+            if (/^([a-z][\\w+.-]*:|#)/i.test(url)) return match;
+            try { return 'url("' + new URL(url, base).href + '")'; } catch (e) { return match; }
+        });
+        let allCSS = '';
+        for (const sheet of document.styleSheets) {
+            try {
+                for (const rule of sheet.cssRules) {
+                    allCSS += resolveUrls(rule.cssText, sheet.href) + String.fromCharCode(10);
+                }
+            } catch (e) { }
+        }
+        
+        const rootStyles = window.getComputedStyle(document.documentElement);
+        const bodyStyles = window.getComputedStyle(document.body);
+        
+        // Agent state hints: a stop control or spinner means a reply is streaming
+        const generating = !!cascade.querySelector('svg.lucide-square, svg.lucide-circle-stop, .codicon-loading, [class*="animate-spin"]')
+            || actions.some(a => /^stop/i.test(a.label) && !a.disabled);
+        const errorEl = [...cascade.querySelectorAll('[role="alert"], [class*="error-message"], [class*="errorMessage"]')]
+            .find(el => el.offsetParent !== null && (el.innerText || '').trim());
+        const agentSignals = {
+            generating: generating,
+            error: errorEl ? errorEl.innerText.trim().slice(0, 200) : null
+        };
+        
+        const controls = ${controlTools(adapter.controls)};
+        const editorTools = ${draftTools(adapter.editor)};
+        
+        const htmlEl = document.documentElement;
+        const themeClass = htmlEl.className;
+        const themeAttr = htmlEl.getAttribute('data-theme') || '';
+        const colorScheme = rootStyles.colorScheme || 'dark';
+        
+        return {
+            html: html,
+            css: allCSS,
+            backgroundColor: cascadeStyles.backgroundColor,
+            color: cascadeStyles.color,
+            fontFamily: cascadeStyles.fontFamily,
+            themeClass: themeClass,
+            themeAttr: themeAttr,
+            colorScheme: colorScheme,
+            bodyBg: bodyStyles.backgroundColor,
+            bodyColor: bodyStyles.color,
+            actions: actions,
+            model: controls.current('model'),
+            mode: controls.current('mode'),
+            draft: editorTools.current(),
+            agentSignals: agentSignals
+        };
+    })()`;
+
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.evaluate", {
+                expression: CAPTURE_SCRIPT,
+                returnByValue: true,
+                contextId: ctx.id
+            });
+
+            if (result.result?.value) {
+                const snapshot = result.result.value as Snapshot;
+                if (snapshot.error) continue;
+
+                // Serve vscode-file:// icons and fonts from the asset cache
+                snapshot.html = await rewriteAssetUrls(snapshot.html);
+                snapshot.css = await rewriteAssetUrls(snapshot.css);
+                Object.assign(snapshot, sanitizeSnapshot(snapshot.html, snapshot.css));
+                return snapshot;
+            }
+        } catch (err) { contextFailed('capture', ctx, err); }
+    }
+
+    return null;
+}
+
+// Extract structured transcript (messages, code, tool steps)
+export async function captureTranscript(cdp: CDPConnection, adapter: ChatAdapter): Promise<Transcript | null> {
+    const TRANSCRIPT_SCRIPT = transcriptScript(adapter.root);
+
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.evaluate", {
+                expression: TRANSCRIPT_SCRIPT,
+                returnByValue: true,
+                contextId: ctx.id
+            });
+
+            const transcript = result.result?.value as Transcript | undefined;
+            if (transcript && !transcript.error) return transcript;
+        } catch (err) { contextFailed('transcript', ctx, err); }
+    }
+
+    return null;
+}
+
+// Inject message into the chat input and submit it. With append, whatever is already
+// typed in the editor is kept and the text goes after it.
+export async function injectMessage(cdp: CDPConnection, adapter: ChatAdapter, text: string, append = false): Promise<InjectResult> {
+    // Text arrives as a real function argument (Runtime.callFunctionOn), never spliced into source
+    const FUNCTION = `async function (text, append) {
+        const tools = ${draftTools(adapter.editor)};
+        const editor = tools.find();
+        if (!editor) return { ok:false, reason:"editor_not_found" };
+
+        tools.write(editor, text, append ? "append" : "replace");
+
+        await new Promise(r => requestAnimationFrame(() => requestAnimationFrame(r)));
+
+        const submitSelector = ${JSON.stringify(adapter.submit)};
+        const submit = submitSelector && document.querySelector(submitSelector)?.closest("button, [role='button']");
+        if (submit && !submit.disabled) {
+            submit.click();
+            return { ok:true, method:"click_submit" };
+        }
+
+        editor.dispatchEvent(new KeyboardEvent("keydown", { bubbles:true, key:"Enter", code:"Enter" }));
+        editor.dispatchEvent(new KeyboardEvent("keyup", { bubbles:true, key:"Enter", code:"Enter" }));
+        
+        return { ok:true, method:"enter_keypress" };
+    }`;
+
+    let lastResult: InjectResult = { ok: false, reason: "no_context" };
+
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.callFunctionOn", {
+                functionDeclaration: FUNCTION,
+                arguments: [{ value: text }, { value: append }],
+                executionContextId: ctx.id,
+                returnByValue: true,
+                awaitPromise: true
+            });
+
+            const injResult = result.result?.value as InjectResult | undefined;
+
+            if (injResult) {
+                // Return immediately if successful
+                if (injResult.ok) {
+                    return countInject('message', injResult);
+                }
+                // Keep track of last non-success result
+                lastResult = injResult;
+            }
+        } catch (err) { contextFailed('inject', ctx, err); }
+    }
+
+    return countInject('message', lastResult);
+}
+
+// Replace or add to the editor's contents without submitting
+export async function setDraft(cdp: CDPConnection, adapter: ChatAdapter, text: string, mode: DraftMode): Promise<DraftResult> {
+    const FUNCTION = draftFunction(adapter);
+    let lastResult: DraftResult = { ok: false, reason: 'no_context' };
+
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.callFunctionOn", {
+                functionDeclaration: FUNCTION,
+                arguments: [{ value: text }, { value: mode }],
+                executionContextId: ctx.id,
+                returnByValue: true,
+                awaitPromise: true
+            });
+
+            // null means the chat isn't in this context - try the next one
+            const draftResult = result.result?.value as DraftResult | null | undefined;
+            if (draftResult) {
+                if (draftResult.ok) return draftResult;
+                lastResult = draftResult;
+            }
+        } catch (err) { contextFailed('draft', ctx, err); }
+    }
+
+    return lastResult;
+}
+
+// Attach files to the chat input by pasting (or dropping) them onto the editor
+export async function attachFiles(cdp: CDPConnection, adapter: ChatAdapter, files: Attachment[]): Promise<InjectResult> {
+    const FUNCTION = `async function (files) {
+        const editors = [...document.querySelectorAll(${JSON.stringify(adapter.editor)})]
+            .filter(el => el.offsetParent !== null);
+        const editor = editors.at(-1);
+        if (!editor) return { ok:false, reason:"editor_not_found" };
+
+        const transfer = new DataTransfer();
+        for (const f of files) {
+            const bytes = Uint8Array.from(atob(f.data), c => c.charCodeAt(0));
+            transfer.items.add(new File([bytes], f.name, { type: f.type }));
+        }
+
+        // The editor handling an event calls preventDefault; nobody handling it means no attachment support
+        editor.focus();
+        const paste = new ClipboardEvent("paste", { bubbles:true, cancelable:true, clipboardData: transfer });
+        editor.dispatchEvent(paste);
+        if (paste.defaultPrevented) return { ok:true, method:"paste" };
+
+        for (const type of ["dragenter", "dragover"]) {
+            editor.dispatchEvent(new DragEvent(type, { bubbles:true, cancelable:true, dataTransfer: transfer }));
+        }
+        const drop = new DragEvent("drop", { bubbles:true, cancelable:true, dataTransfer: transfer });
+        editor.dispatchEvent(drop);
+        if (drop.defaultPrevented) return { ok:true, method:"drop" };
+
+        return { ok:false, reason:"attachments_not_supported" };
+    }`;
+
+    let lastResult: InjectResult = { ok: false, reason: "no_context" };
+
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.callFunctionOn", {
+                functionDeclaration: FUNCTION,
+                arguments: [{ value: files }],
+                executionContextId: ctx.id,
+                returnByValue: true,
+                awaitPromise: true
+            });
+
+            const attachResult = result.result?.value as InjectResult | undefined;
+            if (attachResult) {
+                if (attachResult.ok) return countInject('attachments', attachResult);
+                lastResult = attachResult;
+            }
+        } catch (err) { contextFailed('attach', ctx, err); }
+    }
+
+    return countInject('attachments', lastResult);
+}
+
+// Click a button tagged during capture, in the live page
+export async function clickAction(cdp: CDPConnection, actionId: string): Promise<ActionResult> {
+    // IDs are generated by CAPTURE_SCRIPT; anything else never reaches the page
+    if (!/^a\d+$/.test(actionId)) return { ok: false, reason: 'not_found' };
+
+    const EXPRESSION = `(() => {
+        const ref = window.__agActions?.byId.get(${JSON.stringify(actionId)});
+        const el = ref?.deref();
+        if (!el || !el.isConnected) return null;
+        const label = (el.innerText || el.getAttribute('aria-label') || '').trim();
+        if (el.disabled || el.getAttribute('aria-disabled') === 'true') return { ok:false, reason:"disabled", label };
+        el.scrollIntoView?.({ block: "nearest" });
+        el.click();
+        return { ok:true, label };
+    })()`;
+
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.evaluate", {
+                expression: EXPRESSION,
+                returnByValue: true,
+                contextId: ctx.id
+            });
+
+            // null means this context doesn't know the id - try the next one
+            const actionResult = result.result?.value as ActionResult | null | undefined;
+            if (actionResult) return actionResult;
+        } catch (err) { contextFailed('action', ctx, err); }
+    }
+
+    return { ok: false, reason: cdp.contexts.length ? 'not_found' : 'no_context' };
+}
+
+// Stop, new chat or a model/mode picker, through the adapter's controls
+export async function sendControl(cdp: CDPConnection, adapter: ChatAdapter, command: ControlCommand, value: string | null): Promise<ControlResult> {
+    const FUNCTION = controlFunction(adapter);
+
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.callFunctionOn", {
+                functionDeclaration: FUNCTION,
+                arguments: [{ value: command }, { value }],
+                executionContextId: ctx.id,
+                returnByValue: true,
+                awaitPromise: true
+            });
+
+            // null means the chat isn't in this context - try the next one
+            const controlResult = result.result?.value as ControlResult | null | undefined;
+            if (controlResult) return controlResult;
+        } catch (err) { contextFailed('control', ctx, err); }
+    }
+
+    return { ok: false, reason: 'no_context' };
+}
+
+// Terminals currently in the conversation
+export async function listTerminals(cdp: CDPConnection, adapter: ChatAdapter): Promise<TerminalInfo[] | null> {
+    const TERMINAL_LIST_SCRIPT = terminalListScript(adapter.root);
+
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.evaluate", {
+                expression: TERMINAL_LIST_SCRIPT,
+                returnByValue: true,
+                contextId: ctx.id
+            });
+
+            const list = result.result?.value as TerminalInfo[] | null | undefined;
+            if (list) return list;
+        } catch (err) { contextFailed('terminal_list', ctx, err); }
+    }
+
+    return null;
+}
+
+// Styled lines of one terminal, from a logical line index
+export async function readTerminal(cdp: CDPConnection, adapter: ChatAdapter, id: string, from: number): Promise<TerminalChunk | null> {
+    if (!isTerminalId(id)) return null;
+
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.evaluate", {
+                expression: terminalReadScript(adapter.root, id, from),
+                returnByValue: true,
+                contextId: ctx.id
+            });
+
+            // null means this context doesn't know the id - try the next one
+            const chunk = result.result?.value as TerminalChunk | null | undefined;
+            if (chunk) return chunk;
+        } catch (err) { contextFailed('terminal_read', ctx, err); }
+    }
+
+    return null;
+}
+
+// Adapter for a window: the first candidate whose chat root is in the page, or why none matched
+export async function detectAdapter(cdp: CDPConnection, info: Pick<TargetInfo, 'pageUrl' | 'title'>): Promise<{ adapter: ChatAdapter | null; error: string | null }> {
+    const candidates = adaptersForTarget({ url: info.pageUrl, title: info.title });
+    const DETECT_SCRIPT = `${JSON.stringify(candidates.map(a => a.root))}.map(selector => {
+        try { return document.querySelector(selector) ? 'found' : 'missing'; } catch (e) { return 'invalid'; }
+    })`;
+
+    const invalid = new Set<number>();
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.evaluate", {
+                expression: DETECT_SCRIPT,
+                returnByValue: true,
+                contextId: ctx.id
+            });
+
+            const states = (result.result?.value as string[] | undefined) ?? [];
+            const index = states.indexOf('found');
+            if (index !== -1) return { adapter: candidates[index], error: null };
+            states.forEach((state, i) => { if (state === 'invalid') invalid.add(i); });
+        } catch (err) { contextFailed('detect_adapter', ctx, err); }
+    }
+
+    const error = candidates.length
+        ? candidates.map((a, i) => `${a.name}: ${invalid.has(i) ? 'invalid root selector' : `root "${a.root}" not found`}`).join('; ')
+        : 'no adapter accepts this window';
+    return { adapter: null, error };
+}
+
+// Install the change observer in every context of the page (idempotent); true if one watches a chat root.
+// The page needs the CHANGE_BINDING binding (Runtime.addBinding) first.
+export async function installObserver(cdp: CDPConnection, roots: string[]): Promise<boolean> {
+    // Watches the chat root and calls the binding, at most every 50ms. Until the root
+    // exists it only watches for it to appear; if it is replaced, it re-attaches.
+    // The first of roots found is watched.
+    const OBSERVER_SCRIPT = `(() => {
+        const ROOTS = ${JSON.stringify(roots)};
+        const notifyHost = window[${JSON.stringify(CHANGE_BINDING)}];
+        if (typeof notifyHost !== 'function') return 'no_binding';
+
+        const state = window.__agObserver = window.__agObserver || { observer: null, root: null, pending: false };
+        const notify = () => {
+            if (state.pending) return;
+            state.pending = true;
+            setTimeout(() => {
+                state.pending = false;
+                try { notifyHost('change'); } catch (e) { }
+            }, 50);
+        };
+
+        const findRoot = () => {
+            for (const selector of ROOTS) {
+                try {
+                    const el = document.querySelector(selector);
+                    if (el) return el;
+                } catch (e) { }
+            }
+            return null;
+        };
+
+        const attach = () => {
+            const cascade = findRoot();
+            const root = cascade || document.body;
+            if (!root || root === state.root) return;
+
+            state.observer?.disconnect();
+            state.root = root;
+            state.observer = new MutationObserver(() => {
+                if (!cascade) {
+                    if (findRoot()) attach();
+                    return;
+                }
+                if (!cascade.isConnected) attach();
+                notify();
+            });
+            state.observer.observe(root, { subtree: true, childList: true, characterData: true, attributes: !!cascade });
+            if (cascade) notify();
+        };
+
+        attach();
+        return state.root && state.root !== document.body ? 'observing' : 'waiting';
+    })()`;
+
+    let observing = false;
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.evaluate", {
+                expression: OBSERVER_SCRIPT,
+                returnByValue: true,
+                contextId: ctx.id
+            });
+            if (result.result?.value === 'observing') observing = true;
+        } catch (err) { contextFailed('observer', ctx, err); }
+    }
+    return observing;
+}
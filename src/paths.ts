@@ -0,0 +1,5 @@
+import { join } from 'path';
+import { homedir } from 'os';
+
+// Where paired devices, history and other local state live
+export const DATA_DIR = process.env.AG_MONITOR_DATA_DIR || join(homedir(), '.ag-mobile-monitor');
@@ -0,0 +1,363 @@
+// Sanitization of captured HTML and CSS before it reaches clients, which render it with innerHTML.
+// Input is Chrome's outerHTML / cssText serialization, so the tokenizers below can stay small;
+// whatever they don't recognize is escaped or dropped rather than passed through.
+
+// Elements removed together with their content
+const DROP_WITH_CONTENT = new Set([
+    'script', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'noscript', 'noembed', 'noframes',
+    'xmp', 'plaintext', 'portal', 'fencedframe', 'base', 'meta', 'link', 'animate', 'animatemotion',
+    'animatetransform', 'set', 'handler', 'listener'
+]);
+
+// Children serialized as unescaped text
+const RAW_TEXT = new Set(['script', 'style', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript', 'plaintext']);
+
+const VOID = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr', 'param', 'keygen', 'frame']);
+
+const URL_ATTRIBUTES = new Set([
+    'href', 'src', 'xlink:href', 'action', 'formaction', 'poster', 'background', 'cite', 'data',
+    'longdesc', 'lowsrc', 'ping', 'usemap', 'manifest', 'codebase', 'dynsrc', 'srcset', 'imagesrcset'
+]);
+
+const DROP_ATTRIBUTES = new Set(['srcdoc', 'http-equiv']);
+
+const SAFE_DATA_URL = /^data:(image\/(png|jpe?g|gif|webp|avif|svg\+xml)|font\/[\w.+-]+|application\/(font-woff2?|x-font-\w+))[;,]/i;
+
+// Relative URLs, fragments and these schemes; vscode-file:// icons that weren't cached stay (the client hides them)
+function isSafeUrl(value: string): boolean {
+    const url = value.replace(/[\u0000- \u007f-\u009f]/g, '');
+    const scheme = /^([a-z][\w+.-]*):/i.exec(url)?.[1].toLowerCase();
+    if (!scheme) return true;
+    if (scheme === 'data') return SAFE_DATA_URL.test(url);
+    return ['http', 'https', 'mailto', 'tel', 'vscode-file'].includes(scheme);
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', quot: '"', apos: "'", lt: '<', gt: '>', nbsp: ' ', colon: ':', tab: '\t', newline: '\n' };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[\da-f]+|#\d+|\w+);?/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+        }
+        return ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Class names, styles and the like repeat a lot within a capture and between captures
+const attributeCache = new Map<string, string | null>();
+const ATTRIBUTE_CACHE_SIZE = 20000;
+
+function cachedAttribute(name: string, value: string | null): string | null {
+    const key = value === null ? name : `${name}=${value}`;
+    let result = attributeCache.get(key);
+    if (result === undefined) {
+        result = sanitizeAttribute(name, value);
+        if (attributeCache.size >= ATTRIBUTE_CACHE_SIZE) attributeCache.clear();
+        attributeCache.set(key, result);
+    }
+    return result;
+}
+
+function sanitizeAttribute(name: string, value: string | null): string | null {
+    const lower = name.toLowerCase();
+    if (lower.startsWith('on') || DROP_ATTRIBUTES.has(lower) || !/^[^\s"'<>\/=]+$/.test(name)) return null;
+    if (value === null) return name;
+
+    const decoded = decodeEntities(value);
+    if (lower === 'style') return `${name}="${escapeAttribute(sanitizeDeclarations(decoded))}"`;
+    if (URL_ATTRIBUTES.has(lower)) {
+        const urls = lower.endsWith('srcset') ? decoded.split(',').map(part => part.trim().split(/\s+/)[0]) : [decoded];
+        if (!urls.every(isSafeUrl)) return null;
+    }
+    return `${name}="${escapeAttribute(decoded)}"`;
+}
+
+// Space, tab, newline, form feed, carriage return
+function isSpace(code: number): boolean {
+    return code === 32 || (code >= 9 && code <= 13);
+}
+
+interface Attribute {
+    name: string;
+    value: string | null;
+}
+
+const ATTRIBUTE_NAME = /[^\s\/>=]+/y;
+const UNQUOTED_VALUE = /[^\s>]*/y;
+const TAG_START = /<(\/?)([a-zA-Z][\w:.-]*)/y;
+
+// Attributes of a start tag from index i; returns them with the index after ">"
+function readAttributes(html: string, i: number): { attributes: Attribute[]; end: number; selfClosing: boolean } {
+    const attributes: Attribute[] = [];
+    let selfClosing = false;
+    while (i < html.length) {
+        while (i < html.length && isSpace(html.charCodeAt(i))) i++;
+        if (html[i] === '>') return { attributes, end: i + 1, selfClosing };
+        if (html[i] === '/') {
+            selfClosing = html[i + 1] === '>';
+            i++;
+            continue;
+        }
+
+        ATTRIBUTE_NAME.lastIndex = i;
+        const nameMatch = ATTRIBUTE_NAME.exec(html);
+        if (!nameMatch) {
+            i++;
+            continue;
+        }
+        const name = nameMatch[0];
+        i += name.length;
+        while (i < html.length && isSpace(html.charCodeAt(i))) i++;
+        if (html[i] !== '=') {
+            attributes.push({ name, value: null });
+            continue;
+        }
+
+        i++;
+        while (i < html.length && isSpace(html.charCodeAt(i))) i++;
+        const quote = html[i];
+        let value: string;
+        if (quote === '"' || quote === "'") {
+            const close = html.indexOf(quote, i + 1);
+            const stop = close === -1 ? html.length : close;
+            value = html.slice(i + 1, stop);
+            i = stop + 1;
+        } else {
+            UNQUOTED_VALUE.lastIndex = i;
+            const unquoted = UNQUOTED_VALUE.exec(html)![0];
+            value = unquoted;
+            i += unquoted.length;
+        }
+        attributes.push({ name, value });
+    }
+    return { attributes, end: html.length, selfClosing };
+}
+
+// Strip scripts, inline handlers, dangerous URLs and embedding elements; scope <style> contents
+export function sanitizeHtml(html: string, scope: string): string {
+    let out = '';
+    let i = 0;
+    let skip: { tag: string; depth: number } | null = null; // Inside a dropped element
+
+    while (i < html.length) {
+        const lt = html.indexOf('<', i);
+        if (lt === -1) {
+            if (!skip) out += html.slice(i).replace(/>/g, '&gt;');
+            break;
+        }
+        if (!skip) out += html.slice(i, lt).replace(/>/g, '&gt;');
+        i = lt;
+
+        if (html.startsWith('<!--', i)) {
+            const close = html.indexOf('-->', i + 4);
+            i = close === -1 ? html.length : close + 3;
+            continue;
+        }
+        if (html.startsWith('<![CDATA[', i)) {
+            const close = html.indexOf(']]>', i);
+            i = close === -1 ? html.length : close + 3;
+            continue;
+        }
+        if (html[i + 1] === '!' || html[i + 1] === '?') {
+            const close = html.indexOf('>', i);
+            i = close === -1 ? html.length : close + 1;
+            continue;
+        }
+
+        TAG_START.lastIndex = i;
+        const tagMatch = TAG_START.exec(html);
+        if (!tagMatch) {
+            if (!skip) out += '&lt;';
+            i++;
+            continue;
+        }
+
+        const closing = tagMatch[1] === '/';
+        const tag = tagMatch[2];
+        const lower = tag.toLowerCase();
+        const { attributes, end, selfClosing } = readAttributes(html, i + tagMatch[0].length);
+        i = end;
+
+        if (skip) {
+            if (lower === skip.tag && !selfClosing) skip.depth += closing ? -1 : 1;
+            if (skip.depth === 0) skip = null;
+            continue;
+        }
+
+        if (closing) {
+            if (!DROP_WITH_CONTENT.has(lower)) out += `</${tag}>`;
+            continue;
+        }
+
+        // Raw text runs to the matching end tag, whatever it contains
+        let rawText: string | null = null;
+        if (RAW_TEXT.has(lower) && !selfClosing) {
+            const endTag = new RegExp(`</${lower}[\\s/>]`, 'ig');
+            endTag.lastIndex = i;
+            const close = endTag.exec(html);
+            const stop = close ? close.index : html.length;
+            rawText = html.slice(i, stop);
+            const after = html.indexOf('>', stop);
+            i = !close || after === -1 ? html.length : after + 1;
+        }
+
+        if (DROP_WITH_CONTENT.has(lower)) {
+            if (rawText === null && !selfClosing && !VOID.has(lower)) skip = { tag: lower, depth: 1 };
+            continue;
+        }
+
+        const kept = attributes
+            .map(a => cachedAttribute(a.name, a.value))
+            .filter((a): a is string => a !== null);
+        out += `<${tag}${kept.length ? ' ' + kept.join(' ') : ''}${selfClosing ? '/' : ''}>`;
+        if (rawText !== null) out += `${scopeCss(rawText, scope)}</${tag}>`;
+    }
+
+    return out;
+}
+
+// url("..."), url('...') or an unquoted url(...) up to its closing parenthesis, one level of nesting included
+const CSS_URL = /url\(\s*(?:(["'])([\s\S]*?)\1|((?:[^()]|\([^()]*\))*?))\s*\)/gi;
+
+// Declarations with script-capable values (expression(), behaviors, bad url()s) neutralized, and fixed or
+// sticky boxes turned into ordinary positioned ones so they can't cover the monitor's own controls.
+// "<" is escaped so CSS can never close the <style> element it is rendered in.
+export function sanitizeDeclarations(css: string): string {
+    return css
+        .replace(/\/\*[\s\S]*?(\*\/|$)/g, '')
+        .replace(CSS_URL, (match, _quote, quoted: string | undefined, unquoted: string | undefined) =>
+            isSafeUrl((quoted ?? unquoted ?? '').replace(/\\/g, '')) ? match : 'none')
+        .replace(/(?<![\w-])position\s*:\s*(fixed|sticky)(?![\w-])/gi, (_match, value: string) =>
+            `position: ${value.toLowerCase() === 'fixed' ? 'absolute' : 'relative'}`)
+        .replace(/(expression|javascript|vbscript)\s*(\(|:)/gi, 'blocked$2')
+        .replace(/(?<![\w-])(-moz-binding|behavior)\s*:/gi, 'blocked:')
+        .replace(/@import/gi, '@blocked')
+        .replace(/</g, '\\3c ');
+}
+
+// Index just past the block or statement starting at i (strings and nested braces respected)
+function skipBlock(css: string, i: number): number {
+    let depth = 0;
+    for (; i < css.length; i++) {
+        const c = css[i];
+        if (c === '"' || c === "'") {
+            const close = css.indexOf(c, i + 1);
+            i = close === -1 ? css.length : close;
+        } else if (c === '\\') {
+            i++;
+        } else if (c === '{') {
+            depth++;
+        } else if (c === '}') {
+            depth--;
+            if (depth <= 0) return i + 1;
+        } else if (c === ';' && depth === 0) {
+            return i + 1;
+        }
+    }
+    return css.length;
+}
+
+// Split on top-level commas, outside parentheses, brackets and strings
+function splitSelectors(prelude: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < prelude.length; i++) {
+        const c = prelude[i];
+        if (c === '"' || c === "'") {
+            const close = prelude.indexOf(c, i + 1);
+            i = close === -1 ? prelude.length : close;
+        } else if (c === '\\') {
+            i++;
+        } else if (c === '(' || c === '[') {
+            depth++;
+        } else if (c === ')' || c === ']') {
+            depth--;
+        } else if (c === ',' && depth === 0) {
+            parts.push(prelude.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(prelude.slice(start));
+    return parts.map(p => p.trim()).filter(Boolean);
+}
+
+// A leading html / body / :root compound (with its classes etc.) and the combinator after it
+const ROOT_COMPOUND = /^(:root|html|body)(?![\w-])[^\s>+~,]*/i;
+const COMBINATOR = /^\s*([>~+]?)\s*/;
+
+// Put a selector under the scope. Rules for the page root apply to the scope element itself.
+function scopeSelector(selector: string, scope: string): string {
+    if (selector === scope || /^[\s>~+.:[]/.test(selector.slice(scope.length)) && selector.startsWith(scope)) {
+        return selector; // Already scoped
+    }
+
+    const roots: string[] = [];
+    let rest = selector;
+    let combinator = '';
+    let match: RegExpExecArray | null;
+    while ((match = ROOT_COMPOUND.exec(rest))) {
+        if (combinator) roots.push(combinator);
+        roots.push(match[0]);
+        rest = rest.slice(match[0].length);
+        const next = COMBINATOR.exec(rest)!;
+        combinator = next[1];
+        rest = rest.slice(next[0].length);
+    }
+
+    if (roots.length === 0) return `${scope} ${selector}`;
+    if (rest.startsWith(scope)) return selector;
+    // Bare html / body / :root only add conditions the scope element can't meet
+    const conditions = roots.length === 1 && /^(:root|html|body)$/i.test(roots[0]) ? [] : roots;
+    return [...conditions, scope, combinator, rest].filter(Boolean).join(' ');
+}
+
+const GROUPING_RULES = new Set(['media', 'supports', 'container', 'layer', 'scope', 'starting-style']);
+const DESCRIPTOR_RULES = new Set(['font-face', 'keyframes', '-webkit-keyframes', 'property', 'counter-style', 'page', 'font-feature-values', 'font-palette-values']);
+
+// Scope every selector of a stylesheet under one element, so captured CSS can't restyle the page around it.
+// @import and unknown at-rules are dropped.
+export function scopeCss(css: string, scope: string): string {
+    const source = css.replace(/\/\*[\s\S]*?(\*\/|$)/g, '');
+    let out = '';
+    let i = 0;
+
+    while (i < source.length) {
+        while (i < source.length && /[\s;]/.test(source[i])) i++;
+        if (i >= source.length) break;
+
+        const end = skipBlock(source, i);
+        const chunk = source.slice(i, end);
+        i = end;
+
+        const brace = chunk.indexOf('{');
+        if (brace === -1) {
+            // Statement at-rules: only layer order declarations are kept
+            if (/^@layer\s[^{]*;$/i.test(chunk.trim())) out += sanitizeDeclarations(chunk.trim()) + '\n';
+            continue;
+        }
+
+        const prelude = chunk.slice(0, brace).trim();
+        const body = chunk.slice(brace + 1, chunk.lastIndexOf('}') === -1 ? chunk.length : chunk.lastIndexOf('}'));
+
+        if (prelude.startsWith('@')) {
+            const name = /^@([\w-]+)/.exec(prelude)?.[1].toLowerCase() ?? '';
+            if (GROUPING_RULES.has(name)) {
+                out += `${sanitizeDeclarations(prelude)} {\n${scopeCss(body, scope)}}\n`;
+            } else if (DESCRIPTOR_RULES.has(name)) {
+                out += `${sanitizeDeclarations(prelude)} {${sanitizeDeclarations(body)}}\n`;
+            }
+            continue;
+        }
+
+        const selectors = splitSelectors(prelude).map(s => scopeSelector(s, scope));
+        if (selectors.length) out += `${sanitizeDeclarations(selectors.join(', '))} {${sanitizeDeclarations(body)}}\n`;
+    }
+
+    return out;
+}
@@ -0,0 +1,77 @@
+// Screencast fallback: the chat panel streamed as JPEG frames when DOM capture fails,
+// with taps and scrolls on the phone replayed as mouse input
+
+export type ViewMode = 'auto' | 'dom' | 'screencast';
+
+// CSS pixels in the window's viewport
+export interface ScreencastClip {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ScreencastLayout {
+    width: number; // Viewport size; frames cover all of it
+    height: number;
+    clip: ScreencastClip | null; // Panel box the client crops to; null shows the whole window
+}
+
+// A tap or scroll at a point given as fractions (0-1) of the displayed clip
+export interface ScreencastInput {
+    kind: 'tap' | 'scroll';
+    x: number;
+    y: number;
+    deltaX: number; // CSS pixels, scroll only
+    deltaY: number;
+}
+
+const MAX_SCROLL_DELTA = 5000;
+
+export function isViewMode(value: unknown): value is ViewMode {
+    return value === 'auto' || value === 'dom' || value === 'screencast';
+}
+
+export function parseScreencastInput(raw: { kind?: unknown; x?: unknown; y?: unknown; deltaX?: unknown; deltaY?: unknown }): ScreencastInput | null {
+    const fraction = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 1;
+    const delta = (v: unknown) => typeof v === 'number' && Number.isFinite(v)
+        ? Math.max(-MAX_SCROLL_DELTA, Math.min(MAX_SCROLL_DELTA, v))
+        : 0;
+
+    if ((raw.kind !== 'tap' && raw.kind !== 'scroll') || !fraction(raw.x) || !fraction(raw.y)) return null;
+    return { kind: raw.kind, x: raw.x as number, y: raw.y as number, deltaX: delta(raw.deltaX), deltaY: delta(raw.deltaY) };
+}
+
+// Viewport size and the box of the first visible selector; null outside the top frame
+export function layoutScript(selectors: string[]): string {
+    return `(() => {
+        if (window.top !== window) return null;
+        let clip = null;
+        for (const selector of ${JSON.stringify(selectors)}) {
+            try {
+                const rect = document.querySelector(selector)?.getBoundingClientRect();
+                if (rect && rect.width > 0 && rect.height > 0) {
+                    clip = { x: rect.left, y: rect.top, width: rect.width, height: rect.height };
+                    break;
+                }
+            } catch (e) { }
+        }
+        return { width: window.innerWidth, height: window.innerHeight, clip };
+    })()`;
+}
+
+// Input.dispatchMouseEvent parameters for one tap or scroll
+export function mouseEvents(input: ScreencastInput, layout: ScreencastLayout): Record<string, unknown>[] {
+    const box = layout.clip ?? { x: 0, y: 0, width: layout.width, height: layout.height };
+    const x = Math.round(box.x + input.x * box.width);
+    const y = Math.round(box.y + input.y * box.height);
+
+    if (input.kind === 'scroll') {
+        return [{ type: 'mouseWheel', x, y, deltaX: input.deltaX, deltaY: input.deltaY }];
+    }
+    return [
+        { type: 'mouseMoved', x, y },
+        { type: 'mousePressed', x, y, button: 'left', buttons: 1, clickCount: 1 },
+        { type: 'mouseReleased', x, y, button: 'left', buttons: 0, clickCount: 1 }
+    ];
+}
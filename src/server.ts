@@ -1,537 +1,1174 @@
 #!/usr/bin/env node
-import express, { Request, Response } from 'express';
+import express, { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
 import { WebSocketServer, WebSocket } from 'ws';
 import http from 'http';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import { readFileSync, existsSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { transcriptToMarkdown } from './transcript.js';
+import { initHistory, startSession, recordSnapshot, listSessions, getTimeline, getEntry } from './history.js';
+import { AgentStateChange } from './agent.js';
+import { initNotifications, notifyStateChange, registerPushRoutes, removeDeviceSubscriptions } from './notify.js';
+import { initOutbox, enqueue, getMessage, listMessages, confirmDeliveries, expireDeliveries, waitForSettle, DELIVERY_TIMEOUT } from './outbox.js';
+import { initAuth, requireAllowedIp, requireAuth, authenticateUpgrade, registerAuthRoutes } from './auth.js';
+import { Config, loadConfig, usage, formatPorts } from './config.js';
+import { isTerminalId, terminalToText } from './terminal.js';
+import { initAdapters, adaptersForTarget } from './adapters.js';
+import { ControlCommand, ControlResult, isControlCommand, controlNeedsValue, CONTROL_COMMANDS } from './controls.js';
+import { initAssets, registerAssetRoutes } from './assets.js';
+import { DraftMode, DraftResult, DRAFT_MAX_LENGTH, isDraftMode } from './draft.js';
+import { FOLDER_SCRIPT, folderFromUrl, uriPathToLocal, resolveWorkspace, workspaceStatus, workspaceDiff } from './workspace.js';
+import { initLog, log } from './log.js';
+import { gauge, renderMetrics } from './metrics.js';
+import { ViewMode, ScreencastLayout, isViewMode, parseScreencastInput, layoutScript, mouseEvents } from './screencast.js';
+import { CDPConnection, TargetInfo, contextFailed, discoverTargets } from './cdp.js';
+import { Snapshot, ActionResult, countInject, hashString, sanitizeSnapshot, snapshotTheme } from './page.js';
+import { AntigravitySession, TargetStatus } from './session.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-const PORTS = [9000, 9001, 9002, 9003];
-const POLL_INTERVAL = 3000;
-const HTTP_TIMEOUT = 2000; // 2 seconds max for discovery
-const CDP_CONTEXT_WAIT = 200; // Wait for contexts (was 1000ms!)
+const HTML_HISTORY = 10; // Versions kept per target to diff against client acks
+const TERMINAL_STREAM_INTERVAL = 1000; // Line streaming for clients watching a terminal
+const SEND_WAIT_TIMEOUT = 30000; // Default for /send with wait
+const SCREENCAST_FALLBACK_AFTER = 3; // Failed captures in a row before auto clients get the screencast
+const SCREENCAST_LAYOUT_INTERVAL = 2000; // Re-measure the panel while streaming
+const SCREENCAST_QUALITY = 60; // JPEG
+const SCREENCAST_MAX_SIZE = 1600; // px, either side
+const SCREENCAST_MAX_BUFFERED = 1024 * 1024; // Skip frames for clients that can't keep up
+const ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024; // Per file
+const ATTACHMENT_MAX_FILES = 5;
+const ATTACHMENT_TYPES = /^(image\/(png|jpeg|gif|webp)|text\/[\w.+-]+|application\/(json|xml|x-yaml|yaml))$/;
 
 // Types
-interface CDPInfo {
-    port: number;
-    url: string;
+// Replace html[start, start + deleteCount) with insert
+interface HtmlDiff {
+    start: number;
+    deleteCount: number;
+    insert: string;
 }
 
-interface CDPTarget {
-    url?: string;
-    title?: string;
-    webSocketDebuggerUrl?: string;
+// One monitored Antigravity window: its session, and what clients get from it
+interface MonitoredTarget {
+    session: AntigravitySession; // Connection, captures and agent state
+    sessionId: string; // On-disk history session
+    // Incremental sync
+    version: number;
+    history: { version: number; html: string }[]; // Oldest first
+    // Screencast fallback
+    captureFailures: number; // Consecutive captures that found no chat
+    fallback: boolean; // Auto-mode clients get the screencast
+    screencast: ScreencastState | null; // Running while someone watches it
 }
 
-interface CDPContext {
-    id: number;
-    origin?: string;
-    name?: string;
+interface ScreencastState {
+    cdp: CDPConnection;
+    layout: ScreencastLayout;
+    timer: NodeJS.Timeout;
 }
 
-interface CDPConnection {
-    ws: WebSocket;
-    call: (method: string, params: Record<string, unknown>) => Promise<CDPResult>;
-    contexts: CDPContext[];
+// Per-WebSocket client state
+interface ClientState {
+    deviceId: string | null;
+    targetId?: string; // Window the client asked to follow
+    // What the client holds - updates are diffed against this
+    syncedTarget: string | null;
+    ackedVersion: number | null;
+    cssHash: string | null;
+    themeHash: string | null;
+    terminal: TerminalSubscription | null; // Terminal the client is streaming
+    viewMode: ViewMode; // DOM snapshots, screencast, or screencast only while capture fails
 }
 
-interface CDPResult {
-    result?: {
-        value?: unknown;
-    };
-    error?: {
-        message: string;
-    };
+interface TerminalSubscription {
+    targetId: string;
+    id: string;
+    from: number; // Next read starts here
+    sentHash: string | null; // Last chunk sent, to skip unchanged reads
 }
 
-interface Snapshot {
-    html: string;
-    css: string;
-    backgroundColor: string;
-    color: string;
-    fontFamily: string;
-    error?: string;
-    // Theme fields
-    themeClass?: string;
-    themeAttr?: string;
-    colorScheme?: string;
-    bodyBg?: string;
-    bodyColor?: string;
+// Shared state
+let config: Config; // Set by main() before anything runs
+const targets = new Map<string, MonitoredTarget>();
+const clients = new Map<WebSocket, ClientState>();
+const epoch = randomBytes(4).toString('hex'); // Versions are only meaningful within one server run
+let wssRef: WebSocketServer | null = null;
+let streamingTerminals = false;
+const screencastListeners = new WeakSet<CDPConnection>(); // Connections with a frame handler
+
+// Metrics (GET /metrics); captures, CDP and injection counters live with the session
+gauge('ag_ws_clients', 'Connected WebSocket clients', () => [[{}, clients.size]]);
+gauge('ag_targets', 'Tracked windows by connection status', () => (['connected', 'reconnecting', 'lost'] as TargetStatus[])
+    .map(status => [{ status }, [...targets.values()].filter(t => t.session.status === status).length]));
+
+// Git work tree of the folder a window has open: a config entry for its workspace name,
+// the page URL, or the window's own configuration. null if unknown or not a repo.
+async function workspaceRoot(target: MonitoredTarget): Promise<string | null> {
+    const known = config.workspaces[target.session.info.workspace] ?? folderFromUrl(target.session.info.pageUrl);
+    if (known) return resolveWorkspace(known);
+
+    const cdp = target.session.cdp;
+    if (!cdp) return null;
+
+    for (const ctx of cdp.contexts) {
+        try {
+            const result = await cdp.call("Runtime.evaluate", {
+                expression: FOLDER_SCRIPT,
+                returnByValue: true,
+                contextId: ctx.id
+            });
+
+            // null means a subframe, or a window without a single local folder
+            const path = result.result?.value;
+            if (typeof path === 'string') return resolveWorkspace(uriPathToLocal(path));
+        } catch (err) { contextFailed('workspace', ctx, err); }
+    }
+
+    return null;
 }
 
-interface InjectResult {
-    ok: boolean;
-    method?: string;
-    reason?: string;
+// Pick the target a client asked for, or the first one available
+function resolveTarget(targetId?: string): MonitoredTarget | undefined {
+    if (targetId && targets.has(targetId)) return targets.get(targetId);
+    return targets.values().next().value;
 }
 
-// Shared state
-let cdpConnection: CDPConnection | null = null;
-let lastSnapshot: Snapshot | null = null;
-let lastSnapshotHash: string | null = null;
-let wssRef: WebSocketServer | null = null;
+// Public listing of monitored windows
+function listTargets(): (Omit<TargetInfo, 'url' | 'pageUrl'> & { status: TargetStatus; sessionId: string; agentState: string | null; adapter: string | null; adapterError: string | null })[] {
+    return [...targets.values()].map(({ session: { info, status, agent, adapter, adapterError }, sessionId }) => ({
+        id: info.id,
+        port: info.port,
+        title: info.title,
+        workspace: info.workspace,
+        status,
+        sessionId,
+        agentState: agent.state,
+        adapter: adapter?.name ?? null,
+        adapterError
+    }));
+}
 
-// Helper: HTTP GET JSON with timeout
-function getJson<T>(url: string, timeout = HTTP_TIMEOUT): Promise<T> {
-    return new Promise((resolve, reject) => {
-        const req = http.get(url, (res) => {
-            let data = '';
-            res.on('data', chunk => data += chunk);
-            res.on('end', () => {
-                try { resolve(JSON.parse(data) as T); } catch (e) { reject(e); }
-            });
-        });
+// Common prefix/suffix diff - streaming replies only touch the tail
+function diffHtml(base: string, next: string): HtmlDiff {
+    const max = Math.min(base.length, next.length);
+    let start = 0;
+    while (start < max && base.charCodeAt(start) === next.charCodeAt(start)) start++;
 
-        req.on('error', reject);
-        req.setTimeout(timeout, () => {
-            req.destroy();
-            reject(new Error(`Timeout after ${timeout}ms`));
-        });
-    });
+    let end = 0;
+    while (end < max - start && base.charCodeAt(base.length - 1 - end) === next.charCodeAt(next.length - 1 - end)) end++;
+
+    return { start, deleteCount: base.length - start - end, insert: next.slice(start, next.length - end) };
 }
 
-// Find Antigravity CDP endpoint - parallel with race
-async function discoverCDP(): Promise<CDPInfo> {
-    // Try all ports in parallel, return first success
-    const attempts = PORTS.map(async (port): Promise<CDPInfo | null> => {
-        try {
-            const list = await getJson<CDPTarget[]>(`http://127.0.0.1:${port}/json/list`);
-            const found = list.find(t => t.url?.includes('workbench.html') || (t.title && t.title.includes('workbench')));
-            if (found?.webSocketDebuggerUrl) {
-                return { port, url: found.webSocketDebuggerUrl };
-            }
-        } catch { }
-        return null;
+// Full snapshot - for new, switched or out-of-sync clients
+function snapshotMessage(target: MonitoredTarget): string {
+    return JSON.stringify({
+        type: 'snapshot',
+        target: target.session.info.id,
+        epoch,
+        version: target.version,
+        cssHash: target.session.cssHash,
+        themeHash: target.session.themeHash,
+        data: target.session.lastSnapshot,
+        timestamp: new Date().toISOString()
     });
+}
 
-    const results = await Promise.all(attempts);
-    const found = results.find(r => r !== null);
+// Bring one client up to the target's current version.
+// Sends a patch against its acknowledged version when we still have it, otherwise a full snapshot.
+function sendUpdate(ws: WebSocket, client: ClientState, target: MonitoredTarget): void {
+    const snapshot = target.session.lastSnapshot;
+    if (!snapshot || ws.readyState !== WebSocket.OPEN) return;
+
+    const base = client.syncedTarget === target.session.info.id
+        ? target.history.find(h => h.version === client.ackedVersion)
+        : undefined;
+
+    if (!base) {
+        ws.send(snapshotMessage(target));
+    } else if (base.version === target.version && client.cssHash === target.session.cssHash && client.themeHash === target.session.themeHash) {
+        return; // Already current
+    } else {
+        ws.send(JSON.stringify({
+            type: 'patch',
+            target: target.session.info.id,
+            epoch,
+            version: target.version,
+            base: base.version,
+            diff: diffHtml(base.html, snapshot.html),
+            cssHash: target.session.cssHash,
+            css: client.cssHash === target.session.cssHash ? undefined : snapshot.css,
+            themeHash: target.session.themeHash,
+            theme: client.themeHash === target.session.themeHash ? undefined : snapshotTheme(snapshot),
+            actions: snapshot.actions,
+            model: snapshot.model,
+            mode: snapshot.mode,
+            draft: snapshot.draft,
+            timestamp: new Date().toISOString()
+        }));
+    }
 
-    if (found) return found;
-    throw new Error('CDP not found. Is Antigravity started with --remote-debugging-port=9000?');
+    // TCP keeps order, so the client will hold these once the message lands
+    client.syncedTarget = target.session.info.id;
+    client.cssHash = target.session.cssHash;
+    client.themeHash = target.session.themeHash;
 }
 
-// Connect to CDP
-async function connectCDP(url: string): Promise<CDPConnection> {
-    const ws = new WebSocket(url);
-    await new Promise<void>((resolve, reject) => {
-        ws.on('open', resolve);
-        ws.on('error', reject);
-    });
+// Send to every open WS client
+function broadcast(message: string): void {
+    if (!wssRef) return;
 
-    let idCounter = 1;
-    const call = (method: string, params: Record<string, unknown>): Promise<CDPResult> => new Promise((resolve, reject) => {
-        const id = idCounter++;
-        const handler = (msg: Buffer | string) => {
-            const data = JSON.parse(msg.toString()) as { id?: number; error?: { message: string }; result?: { result?: { value?: unknown } } };
-            if (data.id === id) {
-                ws.off('message', handler);
-                if (data.error) reject(data.error);
-                // CDP Runtime.evaluate returns { result: { result: { value: ... } } }
-                else resolve({ result: data.result?.result });
-            }
-        };
-        ws.on('message', handler);
-        ws.send(JSON.stringify({ id, method, params }));
+    wssRef.clients.forEach(client => {
+        if (client.readyState === WebSocket.OPEN) {
+            client.send(message);
+        }
     });
+}
 
-    const contexts: CDPContext[] = [];
-    ws.on('message', (msg: Buffer | string) => {
-        try {
-            const data = JSON.parse(msg.toString()) as { method?: string; params?: { context: CDPContext } };
-            if (data.method === 'Runtime.executionContextCreated' && data.params) {
-                contexts.push(data.params.context);
-            }
-        } catch { }
-    });
+// Broadcast snapshot to clients following this target
+function broadcastSnapshot(target: MonitoredTarget): void {
+    for (const [ws, client] of clients) {
+        if (resolveTarget(client.targetId) === target) {
+            sendUpdate(ws, client, target);
+        }
+    }
+}
 
-    await call("Runtime.enable", {});
+// Broadcast target list to all WS clients
+function broadcastTargets(): void {
+    broadcast(JSON.stringify({ type: 'targets', data: listTargets() }));
+}
 
-    // Wait briefly for contexts (reduced from 1000ms!)
-    await new Promise(r => setTimeout(r, CDP_CONTEXT_WAIT));
+// Tell clients about a connection state change
+function broadcastStatus(target: MonitoredTarget): void {
+    broadcast(JSON.stringify({
+        type: 'status',
+        target: target.session.info.id,
+        status: target.session.status,
+        attempt: target.session.reconnectAttempts,
+        timestamp: new Date().toISOString()
+    }));
+    broadcastTargets();
+}
 
-    return { ws, call, contexts };
+// Announce a committed agent state change
+function announceAgentState(target: MonitoredTarget, change: AgentStateChange): void {
+    const { info } = target.session;
+    const event = {
+        targetId: info.id,
+        workspace: info.workspace,
+        ...change,
+        timestamp: new Date().toISOString()
+    };
+    log.info(`🤖 ${info.workspace}: ${change.previous ?? 'unknown'} → ${change.state}`, { target: info.id, workspace: info.workspace, state: change.state, previous: change.previous });
+    broadcast(JSON.stringify({ type: 'agent_state', target: event.targetId, state: event.state, previous: event.previous, detail: event.detail, timestamp: event.timestamp }));
+    broadcastTargets();
+    notifyStateChange(event);
 }
 
-// Convert vscode-file:// URLs to base64 data URIs
-function convertVsCodeIcons(html: string): string {
-    // Match vscode-file URLs like: vscode-file://vscode-app/Applications/Antigravity.app/.../file.svg
-    const vsCodeUrlRegex = /vscode-file:\/\/vscode-app(\/[^"'\s]+\.(?:svg|png|jpg|gif))/gi;
+// A changed capture: new version for clients, delivery checks and history
+function storeSnapshot(target: MonitoredTarget, snapshot: Snapshot): void {
+    target.version++;
+    target.history.push({ version: target.version, html: snapshot.html });
+    if (target.history.length > HTML_HISTORY) target.history.shift();
+    broadcastSnapshot(target);
+    confirmDeliveries(target.session.info.id, snapshot.html);
+    recordSnapshot(target.sessionId, snapshot, target.session.cssHash!)
+        .catch(err => log.error('History write error', { error: (err as Error).message }));
+}
 
-    return html.replace(vsCodeUrlRegex, (match, filePath) => {
-        try {
-            // Convert URL path to local filesystem path
-            const localPath = decodeURIComponent(filePath);
+// Count failed captures; enough in a row switch auto-mode clients to the screencast until one succeeds
+function recordCapture(target: MonitoredTarget, ok: boolean): void {
+    target.captureFailures = ok ? 0 : target.captureFailures + 1;
+    const fallback = target.captureFailures >= SCREENCAST_FALLBACK_AFTER;
+    if (fallback === target.fallback) return;
+
+    target.fallback = fallback;
+    log.info(fallback
+        ? `📺 ${target.session.info.workspace}: capture failed ${target.captureFailures} times, falling back to screencast`
+        : `📺 ${target.session.info.workspace}: capture works again, back to DOM snapshots`, { target: target.session.info.id, workspace: target.session.info.workspace, fallback });
+    for (const [ws, client] of clients) {
+        if (resolveTarget(client.targetId) === target) sendViewMode(ws, client);
+    }
+    syncScreencast(target);
+}
 
-            if (!existsSync(localPath)) {
-                return match; // Keep original if file doesn't exist
-            }
+// What a client should be shown for the window it follows
+function effectiveView(client: ClientState, target: MonitoredTarget): 'dom' | 'screencast' {
+    if (client.viewMode === 'auto') return target.fallback ? 'screencast' : 'dom';
+    return client.viewMode;
+}
 
-            const content = readFileSync(localPath);
-            const extension = localPath.split('.').pop()?.toLowerCase() || 'svg';
-            const mimeType = extension === 'svg' ? 'image/svg+xml' : `image/${extension}`;
-            const base64 = content.toString('base64');
+function sendViewMode(ws: WebSocket, client: ClientState): void {
+    const target = resolveTarget(client.targetId);
+    if (!target || ws.readyState !== WebSocket.OPEN) return;
+    ws.send(JSON.stringify({
+        type: 'view_mode',
+        target: target.session.info.id,
+        mode: effectiveView(client, target),
+        choice: client.viewMode,
+        fallback: target.fallback
+    }));
+}
 
-            return `data:${mimeType};base64,${base64}`;
-        } catch {
-            return match; // Keep original on error
-        }
-    });
+// Run the screencast exactly while some client watches it
+function syncScreencast(target: MonitoredTarget): void {
+    const wanted = target.session.status === 'connected' && !!target.session.cdp && [...clients.values()]
+        .some(client => resolveTarget(client.targetId) === target && effectiveView(client, target) === 'screencast');
+    if (wanted && !target.screencast) startScreencast(target);
+    else if (!wanted && target.screencast) stopScreencast(target);
 }
 
-// Capture chat snapshot
-async function captureSnapshot(cdp: CDPConnection): Promise<Snapshot | null> {
-    const CAPTURE_SCRIPT = `(() => {
-        const cascade = document.getElementById('cascade');
-        if (!cascade) return { error: 'cascade not found' };
-        
-        const cascadeStyles = window.getComputedStyle(cascade);
-        const clone = cascade.cloneNode(true);
-        
-        const inputContainer = clone.querySelector('[contenteditable="true"]')?.closest('div[id^="cascade"] > div');
-        if (inputContainer) inputContainer.remove();
-        
-        // Extract terminal text from xterm buffer (WebGL canvas can't be captured)
-        // Find all terminal containers and replace canvas with text content
-        const terminalContainers = clone.querySelectorAll('.terminal.xterm');
-        const originalTerminals = cascade.querySelectorAll('.terminal.xterm');
-        
-        originalTerminals.forEach((originalTerminal, i) => {
-            try {
-                const clonedTerminal = terminalContainers[i];
-                if (!clonedTerminal) return;
-                
-                // Find xterm instance via wrapper.xterm property
-                const wrapper = originalTerminal.closest('.terminal-wrapper');
-                const term = wrapper?.xterm;
-                if (term && term.buffer && term.buffer.active) {
-                    const buffer = term.buffer.active;
-                    const allLines = [];
-                    // Get all valid lines first
-                    for (let row = 0; row < buffer.length; row++) {
-                        const line = buffer.getLine(row);
-                        if (line) {
-                            allLines.push(line.translateToString(true));
-                        }
-                    }
-
-                    // Smart Tail:
-                    // 1. Trim empty lines from the END
-                    while (allLines.length > 0 && allLines[allLines.length - 1].trim() === '') {
-                        allLines.pop();
-                    }
-                    
-                    // Filter out garbage lines that might contain just control characters or weird spacing
-                    // We also show last 60 lines max
-                    let linesToShow = allLines;
-                    if (linesToShow.length > 60) {
-                        linesToShow = linesToShow.slice(-60);
-                    }
-                    
-                    // 2. Trim empty lines AND lone prompts from the START of the slice
-                    // This fixes the "$ $ %" artifacts reported by the user
-                    const promptOnlyRegex = /^[$%>#]\s*$/;
-                    while (linesToShow.length > 0 && (linesToShow[0].trim() === '' || promptOnlyRegex.test(linesToShow[0].trim()))) {
-                        linesToShow.shift();
-                    }
-
-                    // Create a pre element with terminal text
-                    const pre = document.createElement('pre');
-                    pre.textContent = linesToShow.join(String.fromCharCode(10));
-                    // Reset everything on the pre
-                    pre.style.cssText = 'display:block; margin:0; padding:8px 12px; font-family:monospace; font-size:12px; line-height:1.4; background:#181818; color:#d4d4d4; overflow-x:auto; white-space:pre-wrap; word-break:break-all; border:none; width:100%; box-sizing:border-box;';
-                    
-                    // AGGRESSIVE REPLACEMENT:
-                    // Find the wrapper in the CLONED DOM and replace its ENTIRE content with our pre.
-                    // This kills all xterm layout issues, scrollbars, viewports, etc.
-                    const clonedWrapper = clonedTerminal.closest('.terminal-wrapper') || clonedTerminal.parentNode;
-                    
-                    if (clonedWrapper) {
-                        // Clear everything
-                        clonedWrapper.innerHTML = '';
-                        clonedWrapper.appendChild(pre);
-                        
-                        // Reset wrapper styles to just fit content
-                        // @ts-ignore
-                        clonedWrapper.style.height = 'auto';
-                        // @ts-ignore
-                        clonedWrapper.style.minHeight = '0';
-                        // @ts-ignore
-                        clonedWrapper.style.display = 'block';
-                        // @ts-ignore
-                        clonedWrapper.style.padding = '0';
-                        // @ts-ignore
-                        clonedWrapper.className = 'terminal-output-captured'; // Remove conflicting classes
-                    }
-                    
-                    // Also clean up the parent component-shared-terminal if it exists
-                    const termContainer = clonedWrapper.parentNode;
-                    if (termContainer && termContainer.className.includes('component-shared-terminal')) {
-                         // @ts-ignore
-                         termContainer.style.height = 'auto';
-                         // @ts-ignore
-                         termContainer.style.minHeight = '0';
-                         // @ts-ignore
-                         termContainer.style.display = 'block';
-                    }
-                }
-            } catch (e) { }
-        });
-        
-        // Also try to remove any remaining canvases (they'll be empty anyway)
-        clone.querySelectorAll('canvas').forEach(c => c.remove());
-        
-        const html = clone.outerHTML;
-        
-        let allCSS = '';
-        for (const sheet of document.styleSheets) {
-            try {
-                for (const rule of sheet.cssRules) {
-                    allCSS += rule.cssText + String.fromCharCode(10);
-                }
-            } catch (e) { }
-        }
-        
-        const rootStyles = window.getComputedStyle(document.documentElement);
-        const bodyStyles = window.getComputedStyle(document.body);
-        
-        const htmlEl = document.documentElement;
-        const themeClass = htmlEl.className;
-        const themeAttr = htmlEl.getAttribute('data-theme') || '';
-        const colorScheme = rootStyles.colorScheme || 'dark';
-        
-        return {
-            html: html,
-            css: allCSS,
-            backgroundColor: cascadeStyles.backgroundColor,
-            color: cascadeStyles.color,
-            fontFamily: cascadeStyles.fontFamily,
-            themeClass: themeClass,
-            themeAttr: themeAttr,
-            colorScheme: colorScheme,
-            bodyBg: bodyStyles.backgroundColor,
-            bodyColor: bodyStyles.color
-        };
-    })()`;
+function syncScreencasts(): void {
+    for (const target of targets.values()) syncScreencast(target);
+}
 
-    for (const ctx of cdp.contexts) {
+// Panel box and viewport size, so clients can crop frames and taps can be mapped back
+async function measureScreencast(target: MonitoredTarget, state: ScreencastState): Promise<void> {
+    const adapters = target.session.adapter ? [target.session.adapter] : adaptersForTarget({ url: target.session.info.pageUrl, title: target.session.info.title });
+    const selectors = adapters.flatMap(a => a.panel ? [a.panel, a.root] : [a.root]);
+    const LAYOUT_SCRIPT = layoutScript(selectors);
+
+    for (const ctx of state.cdp.contexts) {
         try {
-            const result = await cdp.call("Runtime.evaluate", {
-                expression: CAPTURE_SCRIPT,
+            const result = await state.cdp.call("Runtime.evaluate", {
+                expression: LAYOUT_SCRIPT,
                 returnByValue: true,
                 contextId: ctx.id
             });
 
-            if (result.result?.value) {
-                const snapshot = result.result.value as Snapshot;
-                if (snapshot.error) continue;
-
-                // Convert vscode-file:// icons to base64 in both HTML and CSS
-                snapshot.html = convertVsCodeIcons(snapshot.html);
-                snapshot.css = convertVsCodeIcons(snapshot.css);
-                return snapshot;
+            // null means a subframe - only the top frame's viewport matches the frames
+            const layout = result.result?.value as ScreencastLayout | null | undefined;
+            if (layout) {
+                state.layout = layout;
+                return;
             }
-        } catch { }
+        } catch (err) { contextFailed('layout', ctx, err); }
     }
-
-    return null;
 }
 
-// Inject message into Antigravity
-async function injectMessage(cdp: CDPConnection, text: string): Promise<InjectResult> {
-    const escapedText = text.replace(/"/g, '\\"').replace(/\n/g, '\\n');
-    const EXPRESSION = `(async () => {
-        // Find visible editor (Antigravity supports message queuing even during generation)
-        const editors = [...document.querySelectorAll('#cascade [data-lexical-editor="true"][contenteditable="true"][role="textbox"]')]
-            .filter(el => el.offsetParent !== null);
-        const editor = editors.at(-1);
-        if (!editor) return { ok:false, reason:"editor_not_found" };
+async function startScreencast(target: MonitoredTarget): Promise<void> {
+    const cdp = target.session.cdp;
+    if (!cdp) return;
 
-        editor.focus();
-        document.execCommand?.("selectAll", false, null);
-        document.execCommand?.("delete", false, null);
+    const state: ScreencastState = {
+        cdp,
+        layout: { width: 0, height: 0, clip: null },
+        timer: setInterval(() => measureScreencast(target, state), SCREENCAST_LAYOUT_INTERVAL)
+    };
+    target.screencast = state;
+
+    // Frames must be acked or Chrome stops sending; only the running screencast's frames go out
+    if (!screencastListeners.has(cdp)) {
+        screencastListeners.add(cdp);
+        cdp.on('Page.screencastFrame', (params) => {
+            cdp.call("Page.screencastFrameAck", { sessionId: params.sessionId }).catch(() => { });
+            if (target.screencast?.cdp === cdp) broadcastFrame(target, target.screencast, params.data as string);
+        });
+    }
 
-        let inserted = false;
-        try { inserted = !!document.execCommand?.("insertText", false, "${escapedText}"); } catch {}
-        if (!inserted) {
-            editor.textContent = "${escapedText}";
-            editor.dispatchEvent(new InputEvent("beforeinput", { bubbles:true, inputType:"insertText", data:"${escapedText}" }));
-            editor.dispatchEvent(new InputEvent("input", { bubbles:true, inputType:"insertText", data:"${escapedText}" }));
-        }
+    try {
+        await measureScreencast(target, state);
+        await cdp.call("Page.enable", {});
+        await cdp.call("Page.startScreencast", {
+            format: 'jpeg',
+            quality: SCREENCAST_QUALITY,
+            maxWidth: SCREENCAST_MAX_SIZE,
+            maxHeight: SCREENCAST_MAX_SIZE
+        });
+        log.info(`📺 Screencast started: ${target.session.info.workspace}`, { target: target.session.info.id, workspace: target.session.info.workspace });
+    } catch (err) {
+        log.error(`Screencast error (${target.session.info.workspace})`, { target: target.session.info.id, workspace: target.session.info.workspace, error: (err as Error).message });
+        clearInterval(state.timer);
+        if (target.screencast === state) target.screencast = null;
+    }
+}
 
-        await new Promise(r => requestAnimationFrame(() => requestAnimationFrame(r)));
+function stopScreencast(target: MonitoredTarget): void {
+    const state = target.screencast;
+    if (!state) return;
 
-        const submit = document.querySelector("svg.lucide-arrow-right")?.closest("button");
-        if (submit && !submit.disabled) {
-            submit.click();
-            return { ok:true, method:"click_submit" };
-        }
+    clearInterval(state.timer);
+    target.screencast = null;
+    state.cdp.call("Page.stopScreencast", {}).catch(() => { });
+    log.info(`📺 Screencast stopped: ${target.session.info.workspace}`, { target: target.session.info.id, workspace: target.session.info.workspace });
+}
 
-        editor.dispatchEvent(new KeyboardEvent("keydown", { bubbles:true, key:"Enter", code:"Enter" }));
-        editor.dispatchEvent(new KeyboardEvent("keyup", { bubbles:true, key:"Enter", code:"Enter" }));
-        
-        return { ok:true, method:"enter_keypress" };
-    })()`;
+// Send a frame to the clients watching it; slow clients skip frames instead of queueing them
+function broadcastFrame(target: MonitoredTarget, state: ScreencastState, data: string): void {
+    let message: string | null = null;
+    for (const [ws, client] of clients) {
+        if (ws.readyState !== WebSocket.OPEN || ws.bufferedAmount > SCREENCAST_MAX_BUFFERED) continue;
+        if (resolveTarget(client.targetId) !== target || effectiveView(client, target) !== 'screencast') continue;
+        message ??= JSON.stringify({ type: 'screencast_frame', target: target.session.info.id, data, ...state.layout });
+        ws.send(message);
+    }
+}
 
-    let lastResult: InjectResult = { ok: false, reason: "no_context" };
+// Replay a tap or scroll from the phone at the matching point in the window
+async function screencastInput(target: MonitoredTarget, raw: Record<string, unknown>): Promise<boolean> {
+    const state = target.screencast;
+    const input = parseScreencastInput(raw);
+    if (!state || !input || state.layout.width === 0) return false;
 
+    try {
+        for (const event of mouseEvents(input, state.layout)) {
+            await state.cdp.call("Input.dispatchMouseEvent", event);
+        }
+        return true;
+    } catch (err) {
+        log.error(`Screencast input error (${target.session.info.workspace})`, { target: target.session.info.id, workspace: target.session.info.workspace, error: (err as Error).message });
+        return false;
+    }
+}
 
+// Click an action and refresh right away so clients see the outcome
+async function runAction(target: MonitoredTarget, actionId: string): Promise<ActionResult> {
+    const result = await target.session.click(actionId);
+    log.info(`👆 Action ${actionId} (${result.label ?? '?'}): ${result.ok ? 'clicked' : result.reason}`, { target: target.session.info.id, workspace: target.session.info.workspace, action: actionId, label: result.label, ok: result.ok, reason: result.reason });
+    return result;
+}
 
-    for (const ctx of cdp.contexts) {
-        try {
-            const result = await cdp.call("Runtime.evaluate", {
-                expression: EXPRESSION,
-                returnByValue: true,
-                awaitPromise: true,
-                contextId: ctx.id
-            });
+// Run a conversation control and refresh so clients see the new state
+async function runControl(target: MonitoredTarget, command: ControlCommand, value: string | null): Promise<ControlResult> {
+    const result = await target.session.control(command, value);
+    log.info(`🎛️  Control ${command}${value === null ? '' : ` "${value}"`}: ${result.ok ? result.current ?? 'done' : result.reason}`, { target: target.session.info.id, workspace: target.session.info.workspace, command, value, ok: result.ok, reason: result.reason, current: result.current });
+    return result;
+}
 
-            const injResult = result.result?.value as InjectResult | undefined;
+// Edit a window's draft without sending it
+async function runDraft(target: MonitoredTarget, text: string, mode: DraftMode): Promise<DraftResult> {
+    const result = await target.session.setDraft(text, mode);
+    log.info(`✏️  Draft ${mode} (${text.length} chars): ${result.ok ? 'done' : result.reason}`, { target: target.session.info.id, workspace: target.session.info.workspace, mode, length: text.length, ok: result.ok, reason: result.reason });
+    return result;
+}
 
+// Push new and redrawn lines to clients watching a terminal
+async function streamTerminals(): Promise<void> {
+    if (streamingTerminals) return;
+    streamingTerminals = true;
 
-            if (injResult) {
-                // Return immediately if successful
-                if (injResult.ok) {
-                    return injResult;
-                }
-                // Keep track of last non-success result
-                lastResult = injResult;
+    try {
+        for (const [ws, client] of clients) {
+            const subscription = client.terminal;
+            const target = subscription && targets.get(subscription.targetId);
+            if (!subscription || !target?.session.cdp) continue;
+
+            const chunk = await target.session.readTerminal(subscription.id, subscription.from);
+            if (client.terminal !== subscription) continue; // Unsubscribed meanwhile
+
+            if (!chunk) {
+                client.terminal = null;
+                ws.send(JSON.stringify({ type: 'terminal_closed', id: subscription.id }));
+                continue;
             }
-        } catch { }
-    }
 
-    return lastResult;
-}
+            const hash = hashString(`${chunk.from}:${chunk.total}:${chunk.running}:${JSON.stringify(chunk.lines)}`);
+            if (hash !== subscription.sentHash) {
+                subscription.sentHash = hash;
+                ws.send(JSON.stringify({ type: 'terminal_lines', target: subscription.targetId, ...chunk }));
+            }
 
-// Simple hash function
-function hashString(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-        const char = str.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash;
+            // Lines still in the viewport can be redrawn, so re-read them.
+            // A capped buffer drops lines from the top and shifts every index - start over.
+            subscription.from = chunk.capped ? 0 : chunk.mutableFrom;
+        }
+    } finally {
+        streamingTerminals = false;
     }
-    return hash.toString(36);
 }
 
-// Broadcast snapshot to all WS clients
-function broadcastSnapshot(snapshot: Snapshot): void {
-    if (!wssRef) return;
+// Stop tracking a window for good
+function dropTarget(target: MonitoredTarget): void {
+    const { info } = target.session;
+    stopScreencast(target);
+    if (targets.get(info.id) !== target) return;
+    targets.delete(info.id);
+    log.info(`👋 Window gone: ${info.workspace} (port ${info.port})`, { target: info.id, workspace: info.workspace, port: info.port });
+    broadcastTargets();
+}
 
-    const message = JSON.stringify({
-        type: 'snapshot',
-        data: snapshot,
-        timestamp: new Date().toISOString()
-    });
+// Connect to one window and start tracking it
+async function addTarget(info: TargetInfo): Promise<MonitoredTarget> {
+    const session = new AntigravitySession(info, config);
+    const target: MonitoredTarget = {
+        session,
+        sessionId: startSession(info),
+        version: 0,
+        history: [],
+        captureFailures: 0,
+        fallback: false,
+        screencast: null
+    };
 
-    wssRef.clients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-            client.send(message);
-        }
+    session.on('status', (status) => {
+        broadcastStatus(target);
+        if (status === 'connected') syncScreencast(target);
+        if (status === 'lost') dropTarget(target);
     });
+    session.on('disconnect', () => stopScreencast(target));
+    session.on('adapter', () => broadcastTargets());
+    session.on('capture', (ok) => recordCapture(target, ok));
+    session.on('snapshot', (snapshot) => storeSnapshot(target, snapshot));
+    session.on('state', (change) => announceAgentState(target, change));
+
+    await session.connect();
+    targets.set(info.id, target);
+    broadcastTargets();
+    return target;
 }
 
-// Update snapshot and broadcast if changed
-async function updateSnapshot(): Promise<boolean> {
-    if (!cdpConnection) return false;
+// Reconcile tracked targets with what CDP currently lists
+async function syncTargets(): Promise<void> {
+    const found = await discoverTargets(config);
+    const foundIds = new Set(found.map(t => t.id));
 
-    try {
-        const snapshot = await captureSnapshot(cdpConnection);
-        if (snapshot && !snapshot.error) {
-            const hash = hashString(snapshot.html);
-
-            if (hash !== lastSnapshotHash) {
-                lastSnapshot = snapshot;
-                lastSnapshotHash = hash;
-                broadcastSnapshot(snapshot);
-                return true;
+    // Connected windows that vanished from the listing were closed
+    for (const target of [...targets.values()]) {
+        if (target.session.status === 'connected' && !foundIds.has(target.session.info.id)) {
+            target.session.close();
+        }
+    }
+
+    for (const info of found) {
+        const existing = targets.get(info.id);
+        if (existing) {
+            if (existing.session.info.title !== info.title) {
+                existing.session.info = { ...info };
+                broadcastTargets();
             }
+            continue;
+        }
+
+        // Let the reconnect loop pick up a restarted window it is already waiting on
+        const waiting = [...targets.values()].some(t =>
+            t.session.status === 'reconnecting' && t.session.info.port === info.port && t.session.info.workspace === info.workspace);
+        if (waiting) continue;
+
+        try {
+            await addTarget(info);
+        } catch (err) {
+            log.error(`Connect error (${info.workspace})`, { target: info.id, workspace: info.workspace, port: info.port, error: (err as Error).message });
         }
-    } catch (err) {
-        console.error('Snapshot error:', (err as Error).message);
     }
-    return false;
 }
 
-// Initialize CDP connection
+// Initialize CDP connections
 async function initCDP(): Promise<void> {
-    console.log('🔍 Discovering CDP endpoint...');
+    log.info('🔍 Discovering CDP endpoints...');
     const startTime = Date.now();
 
-    const cdpInfo = await discoverCDP();
-    console.log(`✅ Found on port ${cdpInfo.port} (${Date.now() - startTime}ms)`);
-
-    console.log('🔌 Connecting...');
-    cdpConnection = await connectCDP(cdpInfo.url);
-    console.log(`✅ Connected! ${cdpConnection.contexts.length} contexts (${Date.now() - startTime}ms total)`);
-
-    // Capture first snapshot immediately
-    console.log('📸 Capturing initial snapshot...');
-    await updateSnapshot();
+    await syncTargets();
+    if (targets.size === 0) {
+        log.warn(`⏳ CDP not found on ${config.cdpHost}:${formatPorts(config.cdpPorts)} yet. Is Antigravity started with --remote-debugging-port? Waiting...`, { host: config.cdpHost, ports: config.cdpPorts });
+        return;
+    }
+    log.info(`✅ Monitoring ${targets.size} window(s) (${Date.now() - startTime}ms total)`, { windows: targets.size, ms: Date.now() - startTime });
 }
 
-// Background polling
+// Background work; each session polls its own window
 function startPolling(): void {
-    setInterval(updateSnapshot, POLL_INTERVAL);
+    setInterval(expireDeliveries, config.pollInterval);
+
+    setInterval(streamTerminals, TERMINAL_STREAM_INTERVAL);
+
+    setInterval(() => {
+        syncTargets().catch(err => log.error('Discovery error', { error: (err as Error).message }));
+    }, config.discoveryInterval);
 }
 
 // Create Express app
 async function createServer(): Promise<{ server: http.Server; wss: WebSocketServer }> {
     const app = express();
     const server = http.createServer(app);
-    const wss = new WebSocketServer({ server });
+    const wss = new WebSocketServer({
+        server,
+        verifyClient: ({ req }: { req: http.IncomingMessage }) => authenticateUpgrade(req) !== null
+    });
     wssRef = wss;
 
+    app.use(requireAllowedIp);
     app.use(express.json());
     app.use(express.static(join(__dirname, '..', 'public')));
 
+    // Pairing is open; everything registered after this needs a paired device
+    registerAuthRoutes(app, (deviceId) => {
+        removeDeviceSubscriptions(deviceId);
+        for (const [ws, client] of clients) {
+            if (client.deviceId === deviceId) ws.close(4401, 'Device revoked');
+        }
+    });
+    app.use(requireAuth);
+    registerPushRoutes(app);
+    registerAssetRoutes(app);
+
+    // Connection health for monitoring / the client status bar
+    app.get('/health', (_req: Request, res: Response) => {
+        const list = [...targets.values()].map(t => ({
+            id: t.session.info.id,
+            workspace: t.session.info.workspace,
+            port: t.session.info.port,
+            status: t.session.status,
+            reconnectAttempts: t.session.reconnectAttempts,
+            contexts: t.session.cdp?.contexts.length ?? 0,
+            adapter: t.session.adapter?.name ?? null,
+            adapterError: t.session.adapterError,
+            captureFailures: t.captureFailures,
+            screencast: t.screencast !== null,
+            lastSnapshotAt: t.session.lastSnapshotAt ? new Date(t.session.lastSnapshotAt).toISOString() : null
+        }));
+        const ok = list.some(t => t.status === 'connected');
+        res.status(ok ? 200 : 503).json({ ok, uptime: Math.round(process.uptime()), targets: list });
+    });
+
+    // List monitored Antigravity windows
+    app.get('/targets', (_req: Request, res: Response) => {
+        res.json(listTargets());
+    });
+
+    // Prometheus scrape endpoint (use a paired device's token as the bearer token)
+    app.get('/metrics', (_req: Request, res: Response) => {
+        res.type('text/plain; version=0.0.4').send(renderMetrics());
+    });
+
     // Get current snapshot (fallback for initial load)
-    app.get('/snapshot', (_req: Request, res: Response) => {
-        if (!lastSnapshot) {
+    app.get('/snapshot', (req: Request, res: Response) => {
+        const target = resolveTarget(req.query.target as string | undefined);
+        if (!target?.session.lastSnapshot) {
             return res.status(503).json({ error: 'No snapshot available yet' });
         }
-        res.json(lastSnapshot);
+        res.json(target.session.lastSnapshot);
     });
 
-    // Send message
+    // Queue a message. Returns its id right away; pass wait: true to hold the
+    // response until it shows up in Antigravity (or fails / times out).
     app.post('/send', async (req: Request, res: Response) => {
-        const { message } = req.body as { message?: string };
+        const { message, target: targetId, wait, timeout, append } = req.body as { message?: string; target?: string; wait?: boolean; timeout?: number; append?: boolean };
 
-        if (!message) {
+        if (typeof message !== 'string' || !message.trim()) {
             return res.status(400).json({ error: 'Message required' });
         }
+        if (timeout !== undefined && (typeof timeout !== 'number' || !Number.isFinite(timeout) || timeout < 0)) {
+            return res.status(400).json({ error: 'timeout must be a number of milliseconds' });
+        }
+
+        if (targetId && !targets.has(targetId)) {
+            return res.status(404).json({ error: 'Unknown target' });
+        }
+
+        const target = resolveTarget(targetId);
+        if (!target) {
+            return res.status(503).json({ error: 'CDP not connected' });
+        }
+
+        const queued = enqueue(target.session.info.id, message, append === true);
+        if (!wait) {
+            return res.status(202).json({ success: true, id: queued.id, status: queued.status });
+        }
 
-        if (!cdpConnection) {
+        // A sent message fails after the delivery timeout, so waiting longer only holds the request open
+        const settled = await waitForSettle(queued.id, Math.min(timeout ?? SEND_WAIT_TIMEOUT, DELIVERY_TIMEOUT)) ?? queued;
+        const status = settled.status === 'delivered' ? 200 : settled.status === 'failed' ? 500 : 202;
+        res.status(status).json({ success: settled.status !== 'failed', ...settled });
+    });
+
+    // Attach images / text files (multipart "files"), optionally followed by a "message"
+    const upload = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: ATTACHMENT_MAX_SIZE, files: ATTACHMENT_MAX_FILES },
+        fileFilter: (_req, file, cb) => {
+            if (ATTACHMENT_TYPES.test(file.mimetype)) cb(null, true);
+            else cb(new multer.MulterError('LIMIT_UNEXPECTED_FILE', `${file.originalname} (${file.mimetype} not allowed)`));
+        }
+    }).array('files', ATTACHMENT_MAX_FILES);
+
+    app.post('/send/attachments', (req: Request, res: Response, next: NextFunction) => {
+        upload(req, res, (err: unknown) => {
+            if (err instanceof multer.MulterError) {
+                const error = err.code === 'LIMIT_FILE_SIZE'
+                    ? `File too large (max ${ATTACHMENT_MAX_SIZE / 1024 / 1024} MB)`
+                    : err.code === 'LIMIT_FILE_COUNT'
+                        ? `Too many files (max ${ATTACHMENT_MAX_FILES})`
+                        : `Unsupported file: ${err.field ?? err.message}`;
+                return res.status(400).json({ error });
+            }
+            if (err) return next(err);
+            next();
+        });
+    }, async (req: Request, res: Response) => {
+        const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+        const { message, target: targetId } = req.body as { message?: string; target?: string };
+
+        if (files.length === 0) {
+            return res.status(400).json({ error: 'At least one file required' });
+        }
+
+        if (targetId && !targets.has(targetId)) {
+            return res.status(404).json({ error: 'Unknown target' });
+        }
+
+        const target = resolveTarget(targetId);
+        if (!target?.session.cdp) {
+            return res.status(503).json({ error: 'CDP not connected' });
+        }
+
+        const adapter = await target.session.detectAdapter();
+        if (!adapter) {
+            return res.status(503).json({ error: 'No chat adapter matched the page', adapterError: target.session.adapterError });
+        }
+
+        const result = await target.session.attachFiles(files.map(f => ({
+            name: f.originalname,
+            type: f.mimetype,
+            data: f.buffer.toString('base64')
+        })));
+
+        if (!result.ok) {
+            const error = result.reason === 'attachments_not_supported'
+                ? `The ${adapter.name} chat input did not accept the attachments`
+                : `Could not attach files: ${result.reason}`;
+            return res.status(result.reason === 'attachments_not_supported' ? 422 : 500).json({ success: false, reason: result.reason, error });
+        }
+
+        // Text goes through the normal queue, which submits the message
+        const queued = message?.trim() ? enqueue(target.session.info.id, message) : null;
+        res.status(queued ? 202 : 200).json({
+            success: true,
+            method: result.method,
+            attached: files.map(f => f.originalname),
+            id: queued?.id,
+            status: queued?.status
+        });
+    });
+
+    // Status of queued messages
+    app.get('/api/messages', (req: Request, res: Response) => {
+        res.json(listMessages(req.query.target as string | undefined));
+    });
+
+    app.get('/api/messages/:id', (req: Request, res: Response) => {
+        const message = getMessage(req.params.id);
+        if (!message) {
+            return res.status(404).json({ error: 'Unknown message' });
+        }
+        res.json(message);
+    });
+
+    // Structured conversation: ?format=md for Markdown, ?download=1 for a file
+    app.get('/api/transcript', async (req: Request, res: Response) => {
+        const target = resolveTarget(req.query.target as string | undefined);
+        if (!target?.session.cdp) {
+            return res.status(503).json({ error: 'CDP not connected' });
+        }
+
+        const adapter = await target.session.detectAdapter();
+        if (!adapter) {
+            return res.status(503).json({ error: 'No chat adapter matched the page', adapterError: target.session.adapterError });
+        }
+
+        const transcript = await target.session.transcript();
+        if (!transcript) {
+            return res.status(503).json({ error: 'Transcript not available' });
+        }
+
+        const markdown = req.query.format === 'md' || req.query.format === 'markdown';
+        if (req.query.download) {
+            const stamp = transcript.capturedAt.replace(/[:.]/g, '-');
+            const name = `${target.session.info.workspace.replace(/[^\w.-]+/g, '_')}-transcript-${stamp}.${markdown ? 'md' : 'json'}`;
+            res.setHeader('Content-Disposition', `attachment; filename="${name}"`);
+        }
+
+        if (markdown) {
+            res.type('text/markdown').send(transcriptToMarkdown(transcript));
+        } else {
+            res.json(transcript);
+        }
+    });
+
+    // Terminals in the conversation, with their full scrollback one request away
+    app.get('/api/terminals', async (req: Request, res: Response) => {
+        const targetId = req.query.target as string | undefined;
+        if (targetId && !targets.has(targetId)) {
+            return res.status(404).json({ error: 'Unknown target' });
+        }
+
+        const target = resolveTarget(targetId);
+        if (!target?.session.cdp) {
             return res.status(503).json({ error: 'CDP not connected' });
         }
 
-        const result = await injectMessage(cdpConnection, message);
+        const adapter = await target.session.detectAdapter();
+        if (!adapter) {
+            return res.status(503).json({ error: 'No chat adapter matched the page', adapterError: target.session.adapterError });
+        }
+
+        const terminals = await target.session.terminals();
+        if (!terminals) {
+            return res.status(503).json({ error: 'Terminals not available' });
+        }
+        res.json({ target: target.session.info.id, terminals });
+    });
+
+    // Styled lines of one terminal (?from=<line> for just the new ones, ?format=text for plain text)
+    app.get('/api/terminals/:id', async (req: Request, res: Response) => {
+        const targetId = req.query.target as string | undefined;
+        // Terminal ids are per window (t1, t2, ...): a gone window must not show another one's output
+        if (targetId && !targets.has(targetId)) {
+            return res.status(404).json({ error: 'Unknown target' });
+        }
 
-        if (result.ok) {
-            res.json({ success: true, method: result.method });
+        const target = resolveTarget(targetId);
+        if (!target?.session.cdp) {
+            return res.status(503).json({ error: 'CDP not connected' });
+        }
+
+        const adapter = await target.session.detectAdapter();
+        if (!adapter) {
+            return res.status(503).json({ error: 'No chat adapter matched the page', adapterError: target.session.adapterError });
+        }
+
+        const from = Number(req.query.from ?? 0);
+        const chunk = await target.session.readTerminal(req.params.id, Number.isFinite(from) ? from : 0);
+        if (!chunk) {
+            return res.status(404).json({ error: 'Terminal not found' });
+        }
+
+        if (req.query.format === 'text') {
+            res.type('text/plain').send(terminalToText(chunk));
         } else {
-            res.status(500).json({ success: false, reason: result.reason });
+            res.json({ target: target.session.info.id, ...chunk });
         }
     });
 
-    // WebSocket - send current snapshot on connect
-    wss.on('connection', (ws) => {
-        console.log('📱 Client connected');
+    // Recorded sessions, newest first
+    app.get('/api/history/sessions', (_req: Request, res: Response) => {
+        res.json(listSessions());
+    });
 
-        // Send current snapshot immediately on connect
-        if (lastSnapshot) {
-            ws.send(JSON.stringify({
-                type: 'snapshot',
-                data: lastSnapshot,
-                timestamp: new Date().toISOString()
-            }));
+    // Timeline of one session
+    app.get('/api/history/sessions/:id', async (req: Request, res: Response) => {
+        const timeline = await getTimeline(req.params.id);
+        if (!timeline) {
+            return res.status(404).json({ error: 'Unknown session' });
         }
+        res.json(timeline);
+    });
+
+    // Uncommitted changes in the followed window's workspace (git status), to review agent edits
+    app.get('/api/workspace/status', async (req: Request, res: Response) => {
+        const target = resolveTarget(req.query.target as string | undefined);
+        if (!target) {
+            return res.status(503).json({ error: 'CDP not connected' });
+        }
+
+        const root = await workspaceRoot(target);
+        if (!root) {
+            return res.status(404).json({ error: 'Workspace folder unknown or not a git repository', workspace: target.session.info.workspace });
+        }
+
+        try {
+            res.json({ target: target.session.info.id, workspace: target.session.info.workspace, ...await workspaceStatus(root) });
+        } catch (err) {
+            res.status(500).json({ error: (err as Error).message });
+        }
+    });
+
+    // Unified diff of one file against HEAD; ?path= is relative to the workspace and can't leave it
+    app.get('/api/workspace/diff', async (req: Request, res: Response) => {
+        const path = req.query.path;
+        if (typeof path !== 'string' || !path) {
+            return res.status(400).json({ error: 'path required' });
+        }
+
+        const target = resolveTarget(req.query.target as string | undefined);
+        if (!target) {
+            return res.status(503).json({ error: 'CDP not connected' });
+        }
+
+        const root = await workspaceRoot(target);
+        if (!root) {
+            return res.status(404).json({ error: 'Workspace folder unknown or not a git repository', workspace: target.session.info.workspace });
+        }
+
+        try {
+            const diff = await workspaceDiff(root, path);
+            if (!diff) {
+                return res.status(400).json({ error: 'Path is outside the workspace' });
+            }
+            res.json({ target: target.session.info.id, ...diff });
+        } catch (err) {
+            res.status(500).json({ error: (err as Error).message });
+        }
+    });
+
+    // Snapshot by ?seq= or as of ?at= (ISO time or ms); latest if neither. prev/next step through changes.
+    app.get('/api/history/sessions/:id/snapshot', async (req: Request, res: Response) => {
+        const { seq, at } = req.query as { seq?: string; at?: string };
+        const atMs = at === undefined ? undefined : (/^\d+$/.test(at) ? Number(at) : Date.parse(at));
+        if ((seq !== undefined && !/^\d+$/.test(seq)) || (atMs !== undefined && Number.isNaN(atMs))) {
+            return res.status(400).json({ error: 'Invalid seq or at' });
+        }
+
+        try {
+            const entry = await getEntry(req.params.id, { seq: seq === undefined ? undefined : Number(seq), at: atMs });
+            if (!entry) {
+                return res.status(404).json({ error: 'No snapshot found' });
+            }
+            // Entries recorded before sanitization was added are raw (sanitizing twice is harmless)
+            Object.assign(entry.snapshot, sanitizeSnapshot(entry.snapshot.html, entry.snapshot.css));
+            res.json(entry);
+        } catch (err) {
+            res.status(500).json({ error: (err as Error).message });
+        }
+    });
+
+    // Replace (default) or add to the text in the editor without sending it
+    app.post('/draft', async (req: Request, res: Response) => {
+        const { text, mode = 'replace', target: targetId } = req.body as { text?: unknown; mode?: unknown; target?: string };
+        if (typeof text !== 'string' || text.length > DRAFT_MAX_LENGTH) {
+            return res.status(400).json({ error: `text must be a string of at most ${DRAFT_MAX_LENGTH} characters` });
+        }
+        if (!isDraftMode(mode)) {
+            return res.status(400).json({ error: 'mode must be replace or append' });
+        }
+        if (targetId && !targets.has(targetId)) {
+            return res.status(404).json({ error: 'Unknown target' });
+        }
+
+        const target = resolveTarget(targetId);
+        if (!target?.session.cdp) {
+            return res.status(503).json({ error: 'CDP not connected' });
+        }
+
+        const result = await runDraft(target, text, mode);
+        res.status(result.ok ? 200 : result.reason === 'no_context' ? 503 : 404).json(result);
+    });
+
+    // Click an Accept/Reject/Run/Stop button in Antigravity
+    app.post('/action', async (req: Request, res: Response) => {
+        const { actionId, target: targetId } = req.body as { actionId?: string; target?: string };
+
+        if (!actionId) {
+            return res.status(400).json({ error: 'actionId required' });
+        }
+        // Action ids are per window (a1, a2, ...): never let a tap meant for a gone window land in another
+        if (targetId && !targets.has(targetId)) {
+            return res.status(404).json({ error: 'Unknown target' });
+        }
+
+        const target = resolveTarget(targetId);
+        if (!target?.session.cdp) {
+            return res.status(503).json({ error: 'CDP not connected' });
+        }
+
+        const result = await runAction(target, actionId);
+        res.status(result.ok ? 200 : result.reason === 'disabled' ? 409 : 404).json(result);
+    });
+
+    // Stop generation, start a new chat, or list/switch the model or mode
+    app.post('/control', async (req: Request, res: Response) => {
+        const { command, value, target: targetId } = req.body as { command?: unknown; value?: unknown; target?: string };
+
+        if (!isControlCommand(command)) {
+            return res.status(400).json({ error: `command must be one of ${CONTROL_COMMANDS.join(', ')}` });
+        }
+        if (controlNeedsValue(command) && (typeof value !== 'string' || !value.trim())) {
+            return res.status(400).json({ error: `${command} needs a value` });
+        }
+        if (targetId && !targets.has(targetId)) {
+            return res.status(404).json({ error: 'Unknown target' });
+        }
+
+        const target = resolveTarget(targetId);
+        if (!target?.session.cdp) {
+            return res.status(503).json({ error: 'CDP not connected' });
+        }
+        if (!await target.session.detectAdapter()) {
+            return res.status(503).json({ error: 'No chat adapter matched the page', adapterError: target.session.adapterError });
+        }
+
+        const result = await runControl(target, command, controlNeedsValue(command) ? value as string : null);
+        const status = result.ok ? 200
+            : result.reason === 'not_supported' ? 501
+            : result.reason === 'disabled' ? 409
+            : result.reason === 'no_context' ? 503
+            : 404;
+        res.status(status).json(result);
+    });
+
+    // WebSocket - send targets on connect; snapshots follow the client's subscribe
+    wss.on('connection', (ws, req) => {
+        const client: ClientState = {
+            deviceId: authenticateUpgrade(req),
+            syncedTarget: null,
+            ackedVersion: null,
+            cssHash: null,
+            themeHash: null,
+            terminal: null,
+            viewMode: 'auto'
+        };
+        clients.set(ws, client);
+        log.info('📱 Client connected', { device: client.deviceId, clients: clients.size });
+
+        ws.send(JSON.stringify({ type: 'targets', data: listTargets() }));
+
+        const initial = resolveTarget();
+        if (initial) {
+            ws.send(JSON.stringify({ type: 'status', target: initial.session.info.id, status: initial.session.status, attempt: initial.session.reconnectAttempts, timestamp: new Date().toISOString() }));
+        }
+
+        ws.on('message', async (raw) => {
+            let msg: {
+                type?: string;
+                target?: string;
+                actionId?: string;
+                requestId?: string;
+                epoch?: string;
+                synced?: string;
+                version?: number;
+                cssHash?: string;
+                themeHash?: string;
+                id?: string;
+                from?: number;
+                command?: string;
+                value?: string;
+                view?: string;
+                mode?: string;
+                text?: string;
+            };
+            try { msg = JSON.parse(raw.toString()); } catch { return; }
+
+            // Remote button press
+            if (msg.type === 'action' && typeof msg.actionId === 'string') {
+                // Only the window whose snapshot the button came from
+                const targetId = msg.target ?? client.syncedTarget;
+                const target = targetId && targetId === client.syncedTarget ? targets.get(targetId) : undefined;
+                const result: ActionResult = !target ? { ok: false, reason: 'unknown_target' }
+                    : target.session.cdp ? await runAction(target, msg.actionId)
+                    : { ok: false, reason: 'no_context' };
+                ws.send(JSON.stringify({ type: 'action_result', requestId: msg.requestId, actionId: msg.actionId, ...result }));
+                return;
+            }
+
+            // Conversation control (stop, new chat, model/mode)
+            if (msg.type === 'control') {
+                // A window that was picked but is gone is an error, not a cue to stop or switch another one
+                const targetId = msg.target ?? client.targetId;
+                const target = targetId ? targets.get(targetId) : resolveTarget();
+                let result: ControlResult;
+                if (!target) {
+                    result = { ok: false, reason: targetId ? 'unknown_target' : 'no_context' };
+                } else if (!isControlCommand(msg.command)) {
+                    result = { ok: false, reason: 'unknown_command' };
+                } else if (controlNeedsValue(msg.command) && (typeof msg.value !== 'string' || !msg.value.trim())) {
+                    result = { ok: false, reason: 'value_required' };
+                } else {
+                    result = await runControl(target, msg.command, controlNeedsValue(msg.command) ? msg.value as string : null);
+                }
+                ws.send(JSON.stringify({ type: 'control_result', requestId: msg.requestId, command: msg.command, ...result }));
+                return;
+            }
+
+            // Edit the draft without sending (the phone's input box mirrors it)
+            if (msg.type === 'draft') {
+                // A stale draft for a gone window must not overwrite another window's input
+                const targetId = msg.target ?? client.targetId;
+                const target = targetId ? targets.get(targetId) : resolveTarget();
+                const mode = msg.mode ?? 'replace';
+                let result: DraftResult;
+                if (targetId && !target) {
+                    result = { ok: false, reason: 'unknown_target' };
+                } else if (typeof msg.text !== 'string' || msg.text.length > DRAFT_MAX_LENGTH) {
+                    result = { ok: false, reason: 'text_required' };
+                } else if (!isDraftMode(mode)) {
+                    result = { ok: false, reason: 'invalid_mode' };
+                } else {
+                    result = target ? await runDraft(target, msg.text, mode) : { ok: false, reason: 'no_context' };
+                }
+                ws.send(JSON.stringify({ type: 'draft_result', requestId: msg.requestId, ...result }));
+                return;
+            }
+
+            // Follow a window. A reconnecting client passes what it already holds to resume without a full reload.
+            if (msg.type === 'subscribe') {
+                client.targetId = typeof msg.target === 'string' ? msg.target : undefined;
+                const target = resolveTarget(client.targetId);
+                const resumable = target && msg.epoch === epoch && msg.synced === target.session.info.id && typeof msg.version === 'number';
+
+                client.syncedTarget = resumable ? target.session.info.id : null;
+                client.ackedVersion = resumable ? msg.version! : null;
+                client.cssHash = resumable ? msg.cssHash ?? null : null;
+                client.themeHash = resumable ? msg.themeHash ?? null : null;
+
+                if (isViewMode(msg.view)) client.viewMode = msg.view;
+
+                ws.send(JSON.stringify({ type: 'subscribed', target: target?.session.info.id ?? null, status: target?.session.status ?? null }));
+                if (target) sendUpdate(ws, client, target);
+                sendViewMode(ws, client);
+                syncScreencasts();
+                return;
+            }
+
+            // Client applied this version - later patches are diffed against it
+            if (msg.type === 'ack' && typeof msg.version === 'number') {
+                if (msg.target === client.syncedTarget) client.ackedVersion = msg.version;
+                return;
+            }
+
+            // Client could not apply a patch - start over with a full snapshot
+            if (msg.type === 'resync') {
+                client.syncedTarget = null;
+                client.ackedVersion = null;
+                client.cssHash = null;
+                client.themeHash = null;
+                const target = resolveTarget(client.targetId);
+                if (target) sendUpdate(ws, client, target);
+                return;
+            }
+
+            // Stream a terminal's lines from a line index (one terminal per client)
+            if (msg.type === 'terminal_subscribe' && typeof msg.id === 'string' && isTerminalId(msg.id)) {
+                const targetId = msg.target ?? client.targetId;
+                const target = targetId ? targets.get(targetId) : resolveTarget();
+                if (targetId && !target) {
+                    client.terminal = null;
+                    ws.send(JSON.stringify({ type: 'terminal_closed', id: msg.id, reason: 'unknown_target' }));
+                    return;
+                }
+                client.terminal = target ? {
+                    targetId: target.session.info.id,
+                    id: msg.id,
+                    from: typeof msg.from === 'number' && msg.from >= 0 ? Math.floor(msg.from) : 0,
+                    sentHash: null
+                } : null;
+                return;
+            }
+
+            if (msg.type === 'terminal_unsubscribe') {
+                client.terminal = null;
+                return;
+            }
+
+            // Switch between DOM snapshots and the screencast ('auto' falls back when capture fails)
+            if (msg.type === 'view_mode' && isViewMode(msg.mode)) {
+                client.viewMode = msg.mode;
+                sendViewMode(ws, client);
+                syncScreencasts();
+                return;
+            }
+
+            // Tap or scroll on the screencast
+            if (msg.type === 'screencast_input') {
+                const target = resolveTarget(client.targetId);
+                if (target) await screencastInput(target, msg as Record<string, unknown>);
+            }
+        });
 
         ws.on('close', () => {
-            console.log('📱 Client disconnected');
+            clients.delete(ws);
+            syncScreencasts();
+            log.info('📱 Client disconnected', { device: client.deviceId, clients: clients.size });
         });
     });
 
@@ -543,17 +1180,39 @@ async function main(): Promise<void> {
     try {
         const startTime = Date.now();
 
+        const loaded = loadConfig();
+        if (loaded.help) {
+            console.log(usage());
+            return;
+        }
+        config = loaded.config;
+        initLog(config.logLevel, config.logFormat);
+        log.info(`⚙️  Config${loaded.file ? ` from ${loaded.file}` : ''}: CDP ${config.cdpHost}:${formatPorts(config.cdpPorts)}, poll ${config.pollInterval}ms`, { file: loaded.file, host: config.cdpHost, ports: config.cdpPorts, pollInterval: config.pollInterval });
+
+        initAdapters(config.adapters);
+        initAuth(config.port, config.host);
+        initNotifications();
+        initOutbox({
+            inject: async (targetId, text, append) => {
+                const target = targets.get(targetId);
+                if (!target) return countInject('message', { ok: false, reason: 'not_connected' });
+                return target.session.send(text, append);
+            },
+            currentHtml: (targetId) => targets.get(targetId)?.session.lastSnapshot?.html ?? null,
+            onStatus: (message) => broadcast(JSON.stringify({ type: 'message_status', data: message }))
+        });
+        await initAssets(config.assetRoots);
+        await initHistory(() => new Set([...targets.values()].map(t => t.sessionId)));
         await initCDP();
         const { server } = await createServer();
         startPolling();
 
-        const PORT = process.env.PORT || 3000;
-        server.listen(PORT, () => {
-            console.log(`\n🚀 Ready in ${Date.now() - startTime}ms`);
-            console.log(`📱 http://0.0.0.0:${PORT}`);
+        server.listen(config.port, config.host, () => {
+            const url = `http://${config.host.includes(':') ? `[${config.host}]` : config.host}:${config.port}`;
+            log.info(`\n🚀 Ready in ${Date.now() - startTime}ms\n📱 ${url}`, { ms: Date.now() - startTime, url });
         });
     } catch (err) {
-        console.error('❌ Fatal:', (err as Error).message);
+        log.error('❌ Fatal', { error: (err as Error).message });
         process.exit(1);
     }
 }
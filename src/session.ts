@@ -0,0 +1,470 @@
+import { EventEmitter } from 'events';
+import { WebSocket } from 'ws';
+import { CDPConnection, TargetInfo, CDPOptions, connectCDP, discoverTargets } from './cdp.js';
+import { ChatAdapter, adaptersForTarget } from './adapters.js';
+import { AgentState, AgentStateChange, AgentStateTracker, createTracker, observe, pendingDelay } from './agent.js';
+import { Snapshot, InjectResult, Attachment, ActionResult, CHANGE_BINDING, captureSnapshot, captureTranscript, injectMessage, setDraft, attachFiles, clickAction, sendControl, listTerminals, readTerminal, detectAdapter, installObserver, countInject, hashString, snapshotTheme } from './page.js';
+import { Transcript } from './transcript.js';
+import { TerminalChunk, TerminalInfo } from './terminal.js';
+import { ControlCommand, ControlResult } from './controls.js';
+import { DraftMode, DraftResult } from './draft.js';
+import { countInSnapshot } from './outbox.js';
+import { Config, DEFAULTS, formatPorts } from './config.js';
+import { counter, histogram } from './metrics.js';
+import { log } from './log.js';
+
+// One Antigravity window: keeps its CDP connection (reconnecting when it drops), captures the
+// chat when it changes and reports what happened as events. The web server runs one per window;
+// scripts can drive a window with it directly (see cli.ts).
+
+const CAPTURE_DEBOUNCE_MIN = 100; // Coalesce bursts of DOM changes
+const CAPTURE_DEBOUNCE_MAX = 1500;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+const RECONNECT_MAX_ATTEMPTS = 10; // Then the window is reported as lost
+const REFRESH_DELAY = 300; // After a click or control, before capturing the outcome
+const IDLE_CHECK_INTERVAL = 1000; // Capture pace while waiting for the agent to settle
+
+// Types
+export type TargetStatus = 'connected' | 'reconnecting' | 'lost';
+
+// The matching Config fields; missing ones take the defaults
+export type SessionOptions = CDPOptions & Pick<Config, 'terminalLines' | 'pollInterval' | 'fallbackPollInterval'>;
+
+// Event name -> listener arguments
+export type SessionEvents = {
+    status: [status: TargetStatus]; // Connected, reconnecting after a drop, or lost for good
+    disconnect: []; // The CDP socket closed; a reconnect follows unless the session was closed
+    adapter: [adapter: ChatAdapter | null, error: string | null]; // Detection result changed
+    capture: [ok: boolean]; // Every capture; ok when the chat was found
+    snapshot: [snapshot: Snapshot]; // A capture that differs from the previous one
+    state: [change: AgentStateChange]; // Debounced agent state (see agent.ts)
+};
+
+const captureDuration = histogram('ag_capture_duration_seconds', 'Time to capture a snapshot', [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]);
+const captures = counter('ag_captures_total', 'Captures by result: changed, unchanged, no_adapter, not_found or error');
+const snapshotHtmlBytes = histogram('ag_snapshot_html_bytes', 'Size of captured HTML', [1e4, 5e4, 1e5, 2.5e5, 5e5, 1e6, 2.5e6, 5e6]);
+const snapshotCssBytes = histogram('ag_snapshot_css_bytes', 'Size of captured CSS', [1e4, 5e4, 1e5, 2.5e5, 5e5, 1e6, 2.5e6, 5e6]);
+const cdpDisconnects = counter('ag_cdp_disconnects_total', 'CDP connections lost');
+const cdpReconnects = counter('ag_cdp_reconnects_total', 'Reconnect attempts by result');
+
+export class AntigravitySession extends EventEmitter<SessionEvents> {
+    info: TargetInfo;
+    cdp: CDPConnection | null = null; // null while reconnecting
+    status: TargetStatus = 'reconnecting';
+    reconnectAttempts = 0;
+    adapter: ChatAdapter | null = null; // Detected from the page; null until a chat root is found
+    adapterError: string | null = null; // Why no adapter matched
+    lastSnapshot: Snapshot | null = null;
+    lastSnapshotAt: number | null = null;
+    snapshotHash: string | null = null; // Of the picker labels, draft and html
+    cssHash: string | null = null;
+    themeHash: string | null = null;
+    observing = false; // In-page MutationObserver reports changes
+    readonly agent: AgentStateTracker = createTracker();
+
+    private readonly options: SessionOptions;
+    private latest: Snapshot | null = null; // Last good capture, even one that didn't change the chat
+    private lastSend: { text: string; shown: number } | null = null; // Copies of the text on screen before it was sent
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private pollTimer: NodeJS.Timeout | null = null;
+    // Event-driven capture
+    private capturing = false;
+    private captureQueued = false; // A change arrived mid-capture
+    private captureTimer: NodeJS.Timeout | null = null;
+    private stateTimer: NodeJS.Timeout | null = null; // Capture again when a debounced agent state is due
+    private lastCaptureAt = 0;
+    private lastCaptureDuration = 0;
+
+    constructor(info: TargetInfo, options: Partial<SessionOptions> = {}) {
+        super();
+        this.info = info;
+        this.options = { ...DEFAULTS, ...options };
+    }
+
+    // Connect, capture once and keep capturing until close(). Rejects if the window can't be
+    // reached; once connected, dropped connections are retried.
+    async connect(): Promise<void> {
+        await this.open();
+        if (this.status === 'lost') return;
+        this.pollTimer ??= setInterval(() => this.poll(), this.options.pollInterval);
+    }
+
+    // Stop for good: no more captures or reconnects, and the status becomes 'lost'
+    close(): void {
+        if (this.status === 'lost') return;
+        for (const timer of [this.reconnectTimer, this.captureTimer, this.stateTimer]) if (timer) clearTimeout(timer);
+        if (this.pollTimer) clearInterval(this.pollTimer);
+        this.reconnectTimer = this.captureTimer = this.stateTimer = this.pollTimer = null;
+        this.setStatus('lost');
+        this.cdp?.ws.close();
+        this.cdp = null;
+    }
+
+    // Capture now (one at a time; a call meanwhile queues one more); true if the chat changed
+    async capture(): Promise<boolean> {
+        if (!this.cdp || this.status !== 'connected') return false;
+
+        if (this.capturing) {
+            this.captureQueued = true;
+            return false;
+        }
+
+        this.capturing = true;
+        const started = Date.now();
+        try {
+            return await this.refresh(this.cdp);
+        } finally {
+            this.capturing = false;
+            this.lastCaptureAt = Date.now();
+            this.lastCaptureDuration = this.lastCaptureAt - started;
+            captureDuration.observe({}, this.lastCaptureDuration / 1000);
+            if (this.captureQueued) {
+                this.captureQueued = false;
+                this.scheduleCapture();
+            }
+        }
+    }
+
+    // Adapter for the window: the first candidate whose chat root is in the page, kept until the root disappears
+    async detectAdapter(): Promise<ChatAdapter | null> {
+        if (this.adapter) return this.adapter;
+        const cdp = this.cdp;
+        if (!cdp || cdp.contexts.length === 0) return null;
+
+        const { adapter, error } = await detectAdapter(cdp, this.info);
+        this.setAdapter(adapter, error);
+        return adapter;
+    }
+
+    // Type a message into the chat and submit it; with append, it goes after what is already typed
+    async send(text: string, append = false): Promise<InjectResult> {
+        const cdp = this.cdp;
+        if (!cdp) return countInject('message', { ok: false, reason: 'not_connected' });
+        const adapter = await this.detectAdapter();
+        if (!adapter) return countInject('message', { ok: false, reason: 'no_adapter' });
+
+        const shown = this.lastSnapshot ? countInSnapshot(this.lastSnapshot.html, text) : 0;
+        const result = await injectMessage(cdp, adapter, text, append);
+        if (result.ok) this.lastSend = { text, shown };
+        return result;
+    }
+
+    async attachFiles(files: Attachment[]): Promise<InjectResult> {
+        const cdp = this.cdp;
+        if (!cdp) return countInject('attachments', { ok: false, reason: 'not_connected' });
+        const adapter = await this.detectAdapter();
+        if (!adapter) return countInject('attachments', { ok: false, reason: 'no_adapter' });
+        return attachFiles(cdp, adapter, files);
+    }
+
+    // Edit the draft without submitting; the change observer picks up the new text, the refresh covers polled windows
+    async setDraft(text: string, mode: DraftMode): Promise<DraftResult> {
+        const cdp = this.cdp;
+        const adapter = cdp && await this.detectAdapter();
+        if (!cdp || !adapter) return { ok: false, reason: 'no_context' };
+
+        const result = countInject('draft', await setDraft(cdp, adapter, text, mode));
+        if (result.ok && !this.observing) this.refreshSoon();
+        return result;
+    }
+
+    // Click a button tagged in the last snapshot (SnapshotAction.id) and capture the outcome
+    async click(actionId: string): Promise<ActionResult> {
+        if (!this.cdp) return { ok: false, reason: 'no_context' };
+
+        const result = await clickAction(this.cdp, actionId);
+        if (result.ok) this.refreshSoon();
+        return result;
+    }
+
+    // Stop, new chat or a model/mode picker; changes are captured right away
+    async control(command: ControlCommand, value: string | null = null): Promise<ControlResult> {
+        const cdp = this.cdp;
+        const adapter = cdp && await this.detectAdapter();
+        if (!cdp || !adapter) return { ok: false, reason: 'no_context' };
+
+        const result = await sendControl(cdp, adapter, command, value);
+        if (result.ok && !command.startsWith('list_')) this.refreshSoon();
+        return result;
+    }
+
+    // Structured conversation (messages, code, tool steps); null if the chat can't be read
+    async transcript(): Promise<Transcript | null> {
+        const cdp = this.cdp;
+        const adapter = cdp && await this.detectAdapter();
+        return cdp && adapter ? captureTranscript(cdp, adapter) : null;
+    }
+
+    async terminals(): Promise<TerminalInfo[] | null> {
+        const cdp = this.cdp;
+        const adapter = cdp && await this.detectAdapter();
+        return cdp && adapter ? listTerminals(cdp, adapter) : null;
+    }
+
+    // Styled lines of one terminal, from a logical line index
+    async readTerminal(id: string, from = 0): Promise<TerminalChunk | null> {
+        const cdp = this.cdp;
+        const adapter = cdp && await this.detectAdapter();
+        return cdp && adapter ? readTerminal(cdp, adapter, id, from) : null;
+    }
+
+    // Resolves with the state the agent settles in - idle, waiting for approval, or an error - once it has
+    // held as long as agent.ts requires, judged only from captures made after the call. After send() the
+    // agent may take a while to pick the message up, so settling only counts once it was seen generating or
+    // the message showed up in the chat. null if that doesn't happen within timeout ms.
+    async waitForIdle(timeout: number): Promise<AgentState | null> {
+        let tracker = createTracker();
+        const deadline = Date.now() + timeout;
+        const sent = this.lastSend;
+        let started = !sent;
+        const start = (): void => {
+            started = true;
+            tracker = createTracker(); // Settling is timed from here
+        };
+
+        // Captures between our checks count too - a short reply may only flash by
+        const onState = (change: AgentStateChange): void => {
+            if (!started && change.state === 'generating') start();
+        };
+        this.on('state', onState);
+
+        try {
+            while (Date.now() < deadline) {
+                await this.capture();
+                const snapshot = this.status === 'connected' ? this.latest : null;
+                if (snapshot && !started && (snapshot.agentSignals?.generating || countInSnapshot(snapshot.html, sent!.text) > sent!.shown)) start();
+                const change = snapshot ? observe(tracker, snapshot) : null;
+                if (started && change && change.state !== 'generating') return change.state;
+                await new Promise(r => setTimeout(r, Math.min(IDLE_CHECK_INTERVAL, Math.max(0, deadline - Date.now()))));
+            }
+            return null;
+        } finally {
+            this.off('state', onState);
+        }
+    }
+
+    // Attach a fresh CDP connection; false if it was closed again before it was ready
+    private async open(): Promise<boolean> {
+        const cdp = await connectCDP(this.info.url, this.options);
+        if (this.status === 'lost') {
+            // close() ran while we were connecting
+            cdp.ws.close();
+            return false;
+        }
+        this.cdp = cdp;
+        this.adapter = null; // The page may have changed while we were away
+
+        const dropped = (): void => {
+            if (this.cdp !== cdp) return;
+            this.cdp = null;
+            this.emit('disconnect');
+            if (this.status === 'lost') return;
+            cdpDisconnects.inc();
+            log.warn(`⚠️  Connection lost: ${this.info.workspace} (port ${this.info.port})`, { target: this.info.id, workspace: this.info.workspace, port: this.info.port });
+            this.scheduleReconnect();
+        };
+        cdp.ws.on('close', dropped);
+        // connectCDP waits for contexts after Runtime.enable; a drop during that wait closed the socket before we listened
+        if (cdp.ws.readyState !== WebSocket.OPEN) {
+            dropped();
+            return false;
+        }
+
+        await this.watchChanges(cdp);
+        if (this.cdp !== cdp) return false; // Dropped or closed during setup
+
+        log.info(`✅ Connected to ${this.info.workspace} (port ${this.info.port}, ${cdp.contexts.length} contexts, ${this.observing ? 'observing' : 'polling'})`, { target: this.info.id, workspace: this.info.workspace, port: this.info.port, contexts: cdp.contexts.length, observing: this.observing });
+        this.reconnectAttempts = 0;
+        this.setStatus('connected');
+        await this.capture();
+        return true;
+    }
+
+    // Retry with exponential backoff until the window comes back or we give up
+    private scheduleReconnect(): void {
+        if (this.reconnectTimer) return;
+
+        if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+            this.close();
+            return;
+        }
+
+        const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+        this.reconnectAttempts++;
+        if (this.status !== 'reconnecting') this.setStatus('reconnecting');
+
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = null;
+            try {
+                // Antigravity restarts hand out new target ids - match by window instead
+                const found = await discoverTargets(this.options);
+                const match = found.find(t => t.id === this.info.id)
+                    ?? found.find(t => t.port === this.info.port && t.workspace === this.info.workspace);
+                if (!match) throw new Error('window not listed');
+
+                this.info = { ...match, id: this.info.id };
+                if (await this.open()) cdpReconnects.inc({ result: 'success' });
+            } catch (err) {
+                cdpReconnects.inc({ result: 'failure' });
+                log.warn(`🔁 Reconnect ${this.info.workspace} attempt ${this.reconnectAttempts} failed`, { target: this.info.id, workspace: this.info.workspace, attempt: this.reconnectAttempts, error: (err as Error).message });
+                this.scheduleReconnect();
+            }
+        }, delay);
+    }
+
+    private setStatus(status: TargetStatus): void {
+        this.status = status;
+        this.emit('status', status);
+    }
+
+    // Record adapter detection; log and tell listeners only when it changes
+    private setAdapter(adapter: ChatAdapter | null, error: string | null): void {
+        if (adapter === this.adapter && error === this.adapterError) return;
+
+        if (adapter && adapter !== this.adapter) {
+            log.info(`🧩 ${this.info.workspace}: using the ${adapter.name} adapter`, { target: this.info.id, workspace: this.info.workspace, adapter: adapter.name });
+        } else if (error && error !== this.adapterError) {
+            log.warn(`⚠️  ${this.info.workspace}: no adapter matched the page`, { target: this.info.id, workspace: this.info.workspace, error });
+        }
+        this.adapter = adapter;
+        this.adapterError = error;
+        this.emit('adapter', adapter, error);
+    }
+
+    // Capture once; store and announce it if anything changed
+    private async refresh(cdp: CDPConnection): Promise<boolean> {
+        try {
+            const adapter = await this.detectAdapter();
+            if (!adapter) {
+                captures.inc({ result: 'no_adapter' });
+                this.emit('capture', false);
+                return false;
+            }
+
+            const snapshot = await captureSnapshot(cdp, adapter, this.options.terminalLines);
+            if (!snapshot) {
+                // Chat root gone (reload or a UI change) - detect again on the next capture
+                this.adapter = null;
+                captures.inc({ result: 'not_found' });
+                this.emit('capture', false);
+                return false;
+            }
+            this.emit('capture', true);
+            if (!snapshot.error) {
+                snapshotHtmlBytes.observe({}, Buffer.byteLength(snapshot.html));
+                snapshotCssBytes.observe({}, Buffer.byteLength(snapshot.css));
+                const hash = hashString(`${snapshot.model}|${snapshot.mode}|${snapshot.draft}|${snapshot.html}`);
+                const cssHash = hashString(snapshot.css);
+                const themeHash = hashString(JSON.stringify(snapshotTheme(snapshot)));
+                this.lastSnapshotAt = Date.now();
+                this.latest = snapshot;
+                const change = observe(this.agent, snapshot);
+                if (change) this.emit('state', change);
+                this.scheduleStateCheck();
+
+                if (hash !== this.snapshotHash || cssHash !== this.cssHash || themeHash !== this.themeHash) {
+                    this.lastSnapshot = snapshot;
+                    this.snapshotHash = hash;
+                    this.cssHash = cssHash;
+                    this.themeHash = themeHash;
+                    this.emit('snapshot', snapshot);
+                    captures.inc({ result: 'changed' });
+                    return true;
+                }
+                captures.inc({ result: 'unchanged' });
+            }
+        } catch (err) {
+            log.error(`Snapshot error (${this.info.workspace})`, { target: this.info.id, workspace: this.info.workspace, error: (err as Error).message });
+            captures.inc({ result: 'error' });
+            this.emit('capture', false);
+        }
+        return false;
+    }
+
+    // Capture soon after a change. The gap adapts to how long captures take, so a
+    // streaming reply on a big conversation can't keep the page busy serializing.
+    private scheduleCapture(): void {
+        if (this.captureTimer || this.status === 'lost') return;
+
+        const minGap = Math.min(Math.max(this.lastCaptureDuration * 2, CAPTURE_DEBOUNCE_MIN), CAPTURE_DEBOUNCE_MAX);
+        const delay = Math.max(CAPTURE_DEBOUNCE_MIN, minGap - (Date.now() - this.lastCaptureAt));
+
+        this.captureTimer = setTimeout(() => {
+            this.captureTimer = null;
+            this.capture();
+        }, delay);
+    }
+
+    // When the agent stops, the page goes quiet and no change triggers the capture that would commit
+    // the debounced state - capture once it is due instead of waiting for the safety poll
+    private scheduleStateCheck(): void {
+        if (this.stateTimer) clearTimeout(this.stateTimer);
+        this.stateTimer = null;
+        const delay = pendingDelay(this.agent);
+        if (delay === null || this.status === 'lost') return;
+
+        this.stateTimer = setTimeout(() => {
+            this.stateTimer = null;
+            this.capture();
+        }, delay);
+    }
+
+    private refreshSoon(): void {
+        setTimeout(() => this.capture(), REFRESH_DELAY);
+    }
+
+    // Every poll interval for windows without an observer, otherwise a slow safety
+    // capture that also re-installs the observer if the page replaced the chat root
+    private async poll(): Promise<void> {
+        if (this.observing && Date.now() - this.lastCaptureAt < this.options.fallbackPollInterval) return;
+        await this.watch();
+        await this.capture();
+    }
+
+    // Install the change observer; before an adapter is detected, any candidate's root will do
+    private async watch(): Promise<void> {
+        const cdp = this.cdp;
+        if (!cdp) return;
+
+        const roots = this.adapter
+            ? [this.adapter.root]
+            : adaptersForTarget({ url: this.info.pageUrl, title: this.info.title }).map(a => a.root);
+        this.observing = await installObserver(cdp, roots);
+    }
+
+    // Hook a new connection up for change notifications
+    private async watchChanges(cdp: CDPConnection): Promise<void> {
+        cdp.on('Runtime.bindingCalled', (params) => {
+            if (params.name === CHANGE_BINDING) this.scheduleCapture();
+        });
+        // Reloaded / new frames need the observer again once their DOM exists
+        cdp.on('Runtime.executionContextCreated', () => {
+            setTimeout(() => this.watch(), 1000);
+        });
+
+        try {
+            await cdp.call("Runtime.addBinding", { name: CHANGE_BINDING });
+            await this.watch();
+        } catch (err) {
+            log.warn(`Observer setup failed (${this.info.workspace}), polling instead`, { target: this.info.id, workspace: this.info.workspace, error: (err as Error).message });
+        }
+    }
+}
+
+// Connect to a window on the debug ports: the one with this id or workspace name, or the first one found
+export async function openSession(options: Partial<SessionOptions> = {}, target?: string): Promise<AntigravitySession> {
+    const settings: SessionOptions = { ...DEFAULTS, ...options };
+    const found = await discoverTargets(settings);
+    const info = target
+        ? found.find(t => t.id === target) ?? found.find(t => t.workspace === target)
+        : found[0];
+    if (!info) {
+        const where = `${settings.cdpHost}:${formatPorts(settings.cdpPorts)}`;
+        throw new Error(target ? `No window "${target}" on ${where}` : `No Antigravity window on ${where}`);
+    }
+
+    const session = new AntigravitySession(info, settings);
+    await session.connect();
+    return session;
+}
@@ -0,0 +1,218 @@
+// Terminal capture: xterm buffers read cell by cell and rendered as styled HTML
+
+export interface TerminalLine {
+    html: string; // Escaped text with inline-styled spans
+    text: string;
+}
+
+export interface TerminalInfo {
+    id: string;
+    title: string | null; // Command shown on the tool card, if any
+    running: boolean;
+    lines: number;
+}
+
+export interface TerminalChunk {
+    id: string;
+    running: boolean;
+    total: number; // Logical lines in the buffer
+    from: number; // Index of lines[0]
+    mutableFrom: number; // Lines before this have scrolled out of the viewport and are final
+    capped: boolean; // Buffer is at its scrollback limit, so indices shift as output arrives
+    lines: TerminalLine[];
+}
+
+// IDs are handed out by terminalTools(); anything else never reaches the page
+export function isTerminalId(id: string): boolean {
+    return /^t\d+$/.test(id);
+}
+
+// In-page helpers for terminals inside the chat root, spliced into CAPTURE_SCRIPT
+// and the terminal scripts below. Terminals get stable IDs the same way remote actions do.
+export function terminalTools(root: string): string {
+    return `(() => {
+    const ROOT = ${JSON.stringify(root)};
+    const registry = window.__agTerminals = window.__agTerminals || { nextId: 1, ids: new WeakMap(), byId: new Map() };
+    const ANSI_NAMES = ['black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white',
+        'brightBlack', 'brightRed', 'brightGreen', 'brightYellow', 'brightBlue', 'brightMagenta', 'brightCyan', 'brightWhite'];
+    const ANSI_DEFAULTS = ['#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+        '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#e5e5e5'];
+    const CUBE = [0, 95, 135, 175, 215, 255];
+
+    const hex = (value) => '#' + value.toString(16).padStart(6, '0');
+    const escapeHtml = (text) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    // 256-color palette: 16 theme colors, a 6x6x6 cube, then 24 greys
+    const paletteColor = (term, i) => {
+        if (i < 16) return term.options?.theme?.[ANSI_NAMES[i]] || ANSI_DEFAULTS[i];
+        if (i < 232) {
+            const n = i - 16;
+            return 'rgb(' + CUBE[Math.floor(n / 36)] + ',' + CUBE[Math.floor(n / 6) % 6] + ',' + CUBE[n % 6] + ')';
+        }
+        const grey = 8 + (i - 232) * 10;
+        return 'rgb(' + grey + ',' + grey + ',' + grey + ')';
+    };
+
+    const cellStyle = (term, cell) => {
+        let fg = cell.isFgRGB() ? hex(cell.getFgColor()) : cell.isFgPalette() ? paletteColor(term, cell.getFgColor()) : null;
+        let bg = cell.isBgRGB() ? hex(cell.getBgColor()) : cell.isBgPalette() ? paletteColor(term, cell.getBgColor()) : null;
+        if (cell.isInverse()) {
+            const theme = term.options?.theme || {};
+            [fg, bg] = [bg || theme.background || '#181818', fg || theme.foreground || '#d4d4d4'];
+        }
+
+        const style = [];
+        if (fg) style.push('color:' + fg);
+        if (bg) style.push('background:' + bg);
+        if (cell.isBold()) style.push('font-weight:bold');
+        if (cell.isItalic()) style.push('font-style:italic');
+        if (cell.isDim()) style.push('opacity:0.7');
+        const decoration = [cell.isUnderline() && 'underline', cell.isStrikethrough?.() && 'line-through'].filter(Boolean);
+        if (decoration.length) style.push('text-decoration:' + decoration.join(' '));
+        if (cell.isInvisible()) style.push('visibility:hidden');
+        return style.join(';');
+    };
+
+    // Buffer rows grouped into logical lines (soft-wrapped rows joined), trailing blank lines dropped
+    const logicalLines = (buffer) => {
+        const ranges = [];
+        for (let row = 0; row < buffer.length; row++) {
+            const line = buffer.getLine(row);
+            if (!line) continue;
+            if (line.isWrapped && ranges.length) ranges[ranges.length - 1].end = row;
+            else ranges.push({ start: row, end: row });
+        }
+        while (ranges.length) {
+            const last = ranges[ranges.length - 1];
+            if (last.end > last.start || buffer.getLine(last.start)?.translateToString(true).trim()) break;
+            ranges.pop();
+        }
+        return ranges;
+    };
+
+    const renderLine = (term, range) => {
+        const buffer = term.buffer.active;
+        const reuse = buffer.getNullCell?.();
+        const cells = [];
+        for (let row = range.start; row <= range.end; row++) {
+            const line = buffer.getLine(row);
+            if (!line) continue;
+            for (let x = 0; x < line.length; x++) {
+                const cell = line.getCell(x, reuse);
+                if (!cell || cell.getWidth() === 0) continue; // Second half of a wide character
+                cells.push({ chars: cell.getChars() || ' ', style: cell.isAttributeDefault?.() ? '' : cellStyle(term, cell) });
+            }
+        }
+
+        // Trailing blanks only matter when they carry a background
+        let end = cells.length;
+        while (end > 0 && cells[end - 1].chars.trim() === '' && !cells[end - 1].style.includes('background')) end--;
+
+        let html = '';
+        let text = '';
+        let run = '';
+        let runStyle = '';
+        const flush = () => {
+            if (run) html += runStyle ? '<span style="' + runStyle + '">' + escapeHtml(run) + '</span>' : escapeHtml(run);
+            run = '';
+        };
+        for (let i = 0; i < end; i++) {
+            if (cells[i].style !== runStyle) {
+                flush();
+                runStyle = cells[i].style;
+            }
+            run += cells[i].chars;
+            text += cells[i].chars;
+        }
+        flush();
+        return { html, text };
+    };
+
+    // Lines from index "from", or the last "tail" lines
+    const read = (term, from, tail) => {
+        const buffer = term.buffer.active;
+        const ranges = logicalLines(buffer);
+        const start = tail !== undefined
+            ? Math.max(0, ranges.length - tail)
+            : Math.min(Math.max(0, from), ranges.length);
+        const viewport = ranges.findIndex(r => r.end >= buffer.baseY);
+        return {
+            total: ranges.length,
+            from: start,
+            mutableFrom: viewport === -1 ? ranges.length : viewport,
+            capped: buffer.length >= term.rows + (term.options?.scrollback ?? 1000),
+            lines: ranges.slice(start).map(r => renderLine(term, r))
+        };
+    };
+
+    const idFor = (wrapper) => {
+        let id = registry.ids.get(wrapper);
+        if (!id) {
+            id = 't' + registry.nextId++;
+            registry.ids.set(wrapper, id);
+            registry.byId.set(id, new WeakRef(wrapper));
+        }
+        return id;
+    };
+
+    const find = (id) => {
+        const wrapper = registry.byId.get(id)?.deref();
+        return wrapper && wrapper.isConnected && wrapper.xterm?.buffer?.active ? wrapper : null;
+    };
+
+    // Largest ancestor that still holds only this terminal - its tool card
+    const cardOf = (wrapper) => {
+        let card = wrapper;
+        for (let i = 0; i < 6; i++) {
+            const parent = card.parentElement;
+            if (!parent || parent.matches(ROOT) || parent.querySelectorAll('.terminal-wrapper').length > 1) break;
+            card = parent;
+        }
+        return card;
+    };
+
+    const describe = (wrapper) => {
+        const card = cardOf(wrapper);
+        const command = card.querySelector('code')?.innerText.trim();
+        const stop = [...card.querySelectorAll('button, [role="button"]')]
+            .some(b => /^(cancel|stop|terminate)/i.test((b.innerText || b.getAttribute('aria-label') || '').trim()));
+        return {
+            title: command || null,
+            running: stop || !!card.querySelector('.codicon-loading, [class*="animate-spin"]')
+        };
+    };
+
+    const list = () => {
+        for (const [id, ref] of registry.byId) {
+            const wrapper = ref.deref();
+            if (!wrapper || !wrapper.isConnected) registry.byId.delete(id);
+        }
+        return [...(document.querySelector(ROOT)?.querySelectorAll('.terminal-wrapper') || [])]
+            .filter(w => w.xterm?.buffer?.active)
+            .map(w => ({ id: idFor(w), ...describe(w), lines: logicalLines(w.xterm.buffer.active).length }));
+    };
+
+    return { read, idFor, find, describe, list };
+})()`;
+}
+
+export function terminalListScript(root: string): string {
+    return `(() => {
+        if (!document.querySelector(${JSON.stringify(root)})) return null;
+        return ${terminalTools(root)}.list();
+    })()`;
+}
+
+// Lines of one terminal from a logical line index; null if this page doesn't know the id
+export function terminalReadScript(root: string, id: string, from: number): string {
+    return `(() => {
+        const tools = ${terminalTools(root)};
+        const wrapper = tools.find(${JSON.stringify(id)});
+        if (!wrapper) return null;
+        return { id: ${JSON.stringify(id)}, running: tools.describe(wrapper).running, ...tools.read(wrapper.xterm, ${Math.max(0, Math.floor(from))}) };
+    })()`;
+}
+
+export function terminalToText(chunk: TerminalChunk): string {
+    return chunk.lines.map(l => l.text).join('\n') + '\n';
+}
@@ -0,0 +1,209 @@
+// Structured transcript: turns the chat root's DOM into typed messages
+
+export type TranscriptBlock =
+    | { type: 'text'; text: string }
+    | { type: 'code'; language: string | null; code: string }
+    | { type: 'terminal'; command: string | null; output: string }
+    | { type: 'tool'; name: string; summary: string }
+    | { type: 'file_edit'; action: string; path: string; additions: number | null; deletions: number | null };
+
+export interface TranscriptMessage {
+    role: 'user' | 'assistant';
+    text: string; // Plain text of all text and code blocks
+    blocks: TranscriptBlock[]; // Document order
+}
+
+export interface Transcript {
+    title: string;
+    capturedAt: string;
+    messages: TranscriptMessage[];
+    error?: string;
+}
+
+// Runs in the page, under the adapter's chat root. Selectors are best-effort against
+// the current Antigravity DOM; explicit data attributes win over class-name guesses.
+export function transcriptScript(root: string): string {
+    return `(() => {
+    const cascade = document.querySelector(${JSON.stringify(root)});
+    if (!cascade) return { error: 'chat root not found' };
+
+    const NL = String.fromCharCode(10);
+    const FILE_EDIT = /^(Edited|Created|Deleted|Modified)\\s+(\\S+?\\.[\\w.-]+)(?:\\s+\\+(\\d+)\\s*-(\\d+))?/;
+    const TOOL_STEP = /^(Ran|Running|Read|Reading|Viewed|Analyzed|Searched|Listed|Opened|Thought for|Fetched|Browsed)\\b/;
+    const SKIP = 'button, svg, style, script, canvas, [contenteditable="true"], [aria-hidden="true"]';
+    const BLOCK_TAGS = new Set(['P', 'DIV', 'LI', 'UL', 'OL', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'TABLE', 'TR', 'SECTION', 'ARTICLE']);
+
+    const firstLine = (el) => (el.innerText || '').trim().split(NL)[0].trim();
+    const isHidden = (el) => el.getClientRects().length === 0 && !el.closest('.terminal-wrapper');
+
+    // Full xterm buffer as plain text
+    const terminalText = (wrapper) => {
+        const term = wrapper.xterm;
+        const buffer = term?.buffer?.active;
+        if (!buffer) return (wrapper.innerText || '').trim();
+        const lines = [];
+        for (let row = 0; row < buffer.length; row++) {
+            const line = buffer.getLine(row);
+            if (line) lines.push(line.translateToString(true));
+        }
+        while (lines.length && lines[lines.length - 1].trim() === '') lines.pop();
+        return lines.join(NL);
+    };
+
+    const codeLanguage = (pre) => {
+        const code = pre.querySelector('code') || pre;
+        const fromAttr = pre.getAttribute('data-language') || code.getAttribute('data-language');
+        if (fromAttr) return fromAttr;
+        const cls = [...code.classList, ...pre.classList].find(c => c.startsWith('language-') || c.startsWith('lang-'));
+        return cls ? cls.replace(/^lang(uage)?-/, '') : null;
+    };
+
+    // Walk one message, emitting blocks in document order
+    const parseMessage = (root) => {
+        const blocks = [];
+        let text = '';
+
+        const flush = () => {
+            const trimmed = text.replace(/[ \\t]+\\n/g, NL).replace(/\\n{3,}/g, NL + NL).trim();
+            if (trimmed) blocks.push({ type: 'text', text: trimmed });
+            text = '';
+        };
+
+        const walk = (node) => {
+            for (const child of node.childNodes) {
+                if (child.nodeType === 3) { text += child.textContent.replace(/\\s+/g, ' '); continue; }
+                if (child.nodeType !== 1) continue;
+                const el = child;
+                if (el.matches(SKIP) || isHidden(el)) continue;
+
+                const terminal = el.matches('.terminal-wrapper') ? el : null;
+                if (terminal) {
+                    flush();
+                    blocks.push({ type: 'terminal', command: null, output: terminalText(terminal) });
+                    continue;
+                }
+
+                if (el.tagName === 'PRE') {
+                    flush();
+                    blocks.push({ type: 'code', language: codeLanguage(el), code: (el.innerText || '').replace(/\\n$/, '') });
+                    continue;
+                }
+
+                const line = firstLine(el);
+                const edit = el.getAttribute('data-file-path')
+                    ? [null, 'Edited', el.getAttribute('data-file-path'), null, null]
+                    : (el.childElementCount > 0 && line.length < 200 ? FILE_EDIT.exec(line) : null);
+                if (edit && !el.querySelector('pre')) {
+                    flush();
+                    blocks.push({
+                        type: 'file_edit',
+                        action: edit[1],
+                        path: edit[2],
+                        additions: edit[3] ? Number(edit[3]) : null,
+                        deletions: edit[4] ? Number(edit[4]) : null
+                    });
+                    continue;
+                }
+
+                if (el.childElementCount > 0 && line.length < 200 && TOOL_STEP.test(line)) {
+                    flush();
+                    const term = el.querySelector('.terminal-wrapper');
+                    if (term) {
+                        const command = el.querySelector('code')?.innerText || line.replace(TOOL_STEP, '').trim();
+                        blocks.push({ type: 'terminal', command: command || null, output: terminalText(term) });
+                    } else {
+                        blocks.push({ type: 'tool', name: TOOL_STEP.exec(line)[1], summary: line });
+                    }
+                    continue;
+                }
+
+                if (el.tagName === 'CODE') { text += '\\u0060' + el.innerText + '\\u0060'; continue; }
+                if (el.tagName === 'BR') { text += NL; continue; }
+
+                const isBlock = BLOCK_TAGS.has(el.tagName);
+                if (isBlock) text += NL;
+                if (/^H[1-6]$/.test(el.tagName)) text += '#'.repeat(Number(el.tagName[1])) + ' ';
+                if (el.tagName === 'LI') text += (el.parentElement?.tagName === 'OL' ? '1. ' : '- ');
+                walk(el);
+                if (isBlock) text += NL;
+            }
+        };
+
+        walk(root);
+        flush();
+        return blocks;
+    };
+
+    // Message nodes: explicit roles first, otherwise the children of the longest list in the cascade
+    let nodes = [...cascade.querySelectorAll('[data-message-role], [data-message-author-role], [data-role="user"], [data-role="assistant"]')];
+    if (nodes.length === 0) {
+        let best = null;
+        cascade.querySelectorAll('div').forEach(el => {
+            if (el.matches('[contenteditable="true"]') || el.querySelector('[contenteditable="true"]')) return;
+            if (!best || el.childElementCount > best.childElementCount) best = el;
+        });
+        nodes = best ? [...best.children] : [];
+    }
+
+    const roleOf = (el) => {
+        const explicit = el.getAttribute('data-message-role') || el.getAttribute('data-message-author-role') || el.getAttribute('data-role');
+        if (explicit) return explicit === 'user' ? 'user' : 'assistant';
+        const cls = (el.className || '') + ' ' + [...el.querySelectorAll('[class]')].slice(0, 5).map(c => c.className).join(' ');
+        return /user|human/i.test(String(cls)) ? 'user' : 'assistant';
+    };
+
+    const messages = [];
+    for (const node of nodes) {
+        if (isHidden(node)) continue;
+        const blocks = parseMessage(node);
+        if (blocks.length === 0) continue;
+        const text = blocks
+            .filter(b => b.type === 'text' || b.type === 'code')
+            .map(b => b.type === 'text' ? b.text : b.code)
+            .join(NL + NL);
+        messages.push({ role: roleOf(node), text, blocks });
+    }
+
+    return { title: document.title, capturedAt: new Date().toISOString(), messages };
+})()`;
+}
+
+// Longest run of backticks in a string, so fences never collide with content
+function fenceFor(content: string): string {
+    const longest = Math.max(2, ...(content.match(/`+/g) || []).map(m => m.length));
+    return '`'.repeat(longest + 1);
+}
+
+function blockToMarkdown(block: TranscriptBlock): string {
+    switch (block.type) {
+        case 'text':
+            return block.text;
+        case 'code': {
+            const fence = fenceFor(block.code);
+            return `${fence}${block.language ?? ''}\n${block.code}\n${fence}`;
+        }
+        case 'terminal': {
+            const fence = fenceFor(block.output);
+            const header = block.command ? `**Terminal:** \`${block.command}\`\n\n` : '**Terminal**\n\n';
+            return `${header}${fence}\n${block.output}\n${fence}`;
+        }
+        case 'tool':
+            return `> 🔧 ${block.summary}`;
+        case 'file_edit': {
+            const stats = block.additions !== null ? ` (+${block.additions} -${block.deletions ?? 0})` : '';
+            return `> 📝 ${block.action} \`${block.path}\`${stats}`;
+        }
+    }
+}
+
+// Markdown export for PR descriptions and bug reports
+export function transcriptToMarkdown(transcript: Transcript): string {
+    const parts = [`# ${transcript.title || 'Antigravity conversation'}`, `_Captured ${transcript.capturedAt}_`];
+
+    for (const message of transcript.messages) {
+        parts.push(`## ${message.role === 'user' ? '🧑 User' : '🤖 Assistant'}`);
+        parts.push(...message.blocks.map(blockToMarkdown));
+    }
+
+    return parts.join('\n\n') + '\n';
+}
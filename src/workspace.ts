@@ -0,0 +1,206 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { realpath, stat } from 'fs/promises';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { fileURLToPath } from 'url';
+
+// Uncommitted changes in the folder a window has open, read from the local git repo,
+// so agent edits can be reviewed on the phone. Nothing outside that folder is read.
+
+const GIT_TIMEOUT = 10000;
+const MAX_DIFF_SIZE = 2 * 1024 * 1024; // Longer diffs are cut off
+const MAX_STATUS_FILES = 2000;
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'; // Diff base before the first commit
+
+const execFileAsync = promisify(execFile);
+
+export type FileChange = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflicted';
+
+export interface WorkspaceFile {
+    path: string; // Relative to the workspace root, with forward slashes
+    from: string | null; // Previous path of a rename or copy
+    change: FileChange;
+    index: string; // git status letters: staged ...
+    worktree: string; // ... and unstaged
+}
+
+export interface WorkspaceStatus {
+    root: string;
+    branch: string | null; // null on a detached HEAD
+    files: WorkspaceFile[];
+    truncated: boolean;
+}
+
+export interface WorkspaceDiff {
+    path: string;
+    diff: string; // Unified diff against HEAD, staged and unstaged changes together
+    truncated: boolean;
+}
+
+// Folder in the page URL (?folder=file:///...), as used by browser-based builds
+export function folderFromUrl(pageUrl: string): string | null {
+    try {
+        const folder = new URL(pageUrl).searchParams.get('folder');
+        return folder?.startsWith('file://') ? fileURLToPath(folder) : null;
+    } catch {
+        return null;
+    }
+}
+
+// The desktop window's own configuration knows its folder; null in subframes or multi-root windows
+export const FOLDER_SCRIPT = `(() => {
+    if (window.top !== window) return null;
+    try {
+        const config = globalThis.vscode?.context?.configuration?.();
+        const uri = config?.workspace?.uri || config?.folderUri;
+        return uri && uri.scheme === 'file' && typeof uri.path === 'string' ? uri.path : null;
+    } catch (e) {
+        return null;
+    }
+})()`;
+
+// URI path ("/c:/Users/..." on Windows) to a local path
+export function uriPathToLocal(path: string): string {
+    return process.platform === 'win32' && /^\/[a-zA-Z]:\//.test(path) ? path.slice(1) : path;
+}
+
+function within(root: string, path: string): boolean {
+    return path === root || path.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+function toPosix(path: string): string {
+    return path.split(sep).join('/');
+}
+
+// Exit codes in ok count as success (git diff --no-index exits 1 when files differ).
+// Repo config can run programs: fsmonitor hooks, filter drivers (clean/smudge/process), external diff
+// and textconv. None of them run here - fsmonitor and filters are switched off below, diffs pass
+// --no-ext-diff and --no-textconv.
+async function git(root: string, args: string[], ok = [0]): Promise<{ stdout: string; truncated: boolean }> {
+    // Reading the config runs nothing; every filter driver it names is emptied for this call
+    const { stdout: filters } = await runGit(root, ['config', '-z', '--get-regexp', '^filter\\.'], [0, 1]);
+    const drivers = new Set(filters.split('\0').filter(Boolean).map(entry => {
+        const key = entry.split('\n')[0];
+        return key.slice('filter.'.length, key.lastIndexOf('.'));
+    }));
+    const overrides = [...drivers].filter(Boolean).flatMap(name =>
+        ['clean', 'smudge', 'process', 'required'].flatMap(key => ['-c', `filter.${name}.${key}=${key === 'required' ? 'false' : ''}`]));
+    return runGit(root, [...overrides, ...args], ok);
+}
+
+async function runGit(root: string, args: string[], ok: number[]): Promise<{ stdout: string; truncated: boolean }> {
+    try {
+        const { stdout } = await execFileAsync('git', ['-c', 'core.quotepath=off', '-c', 'core.fsmonitor=false', ...args], {
+            cwd: root,
+            timeout: GIT_TIMEOUT,
+            maxBuffer: MAX_DIFF_SIZE,
+            env: { ...process.env, GIT_OPTIONAL_LOCKS: '0' }, // Don't take the index lock while Antigravity works
+            windowsHide: true
+        });
+        return { stdout, truncated: false };
+    } catch (err) {
+        const failure = err as Error & { code?: number | string; stdout?: string };
+        if (failure.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER') return { stdout: failure.stdout ?? '', truncated: true };
+        if (typeof failure.code === 'number' && ok.includes(failure.code)) return { stdout: failure.stdout ?? '', truncated: false };
+        throw err;
+    }
+}
+
+// Real path of the workspace if it is inside a git work tree, otherwise null
+export async function resolveWorkspace(folder: string): Promise<string | null> {
+    let root: string;
+    try {
+        root = await realpath(folder);
+        const { stdout } = await git(root, ['rev-parse', '--is-inside-work-tree']);
+        if (stdout.trim() !== 'true') return null;
+    } catch {
+        return null;
+    }
+    return root;
+}
+
+function classify(index: string, worktree: string): FileChange {
+    if (index === '?') return 'untracked';
+    if (index === 'U' || worktree === 'U' || (index === 'A' && worktree === 'A') || (index === 'D' && worktree === 'D')) return 'conflicted';
+    if (index === 'R' || index === 'C') return 'renamed';
+    if (index === 'A') return 'added';
+    if (index === 'D' || worktree === 'D') return 'deleted';
+    return 'modified';
+}
+
+// Changed files under the workspace root (git status), untracked files included
+export async function workspaceStatus(root: string): Promise<WorkspaceStatus> {
+    // Porcelain paths are relative to the repo; the workspace may be a subfolder of it
+    const prefix = (await git(root, ['rev-parse', '--show-prefix'])).stdout.trim();
+    const { stdout } = await git(root, ['status', '--porcelain=v1', '-z', '--branch', '--untracked-files=all', '--', '.']);
+
+    const entries = stdout.split('\0');
+    let branch: string | null = null;
+    const files: WorkspaceFile[] = [];
+    const strip = (path: string) => path.startsWith(prefix) ? path.slice(prefix.length) : path;
+
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        if (!entry) continue;
+
+        // "## main...origin/main [ahead 1]", "## No commits yet on main", "## HEAD (no branch)"
+        if (entry.startsWith('## ')) {
+            const name = entry.slice(3).replace(/^No commits yet on /, '').split('...')[0].split(' ')[0];
+            branch = name === 'HEAD' ? null : name;
+            continue;
+        }
+
+        const [index, worktree] = [entry[0], entry[1]];
+        const renamed = index === 'R' || index === 'C';
+        const from = renamed ? strip(entries[++i] ?? '') : null;
+        files.push({ path: strip(entry.slice(3)), from, change: classify(index, worktree), index, worktree });
+    }
+
+    files.sort((a, b) => a.path.localeCompare(b.path));
+    return { root, branch, files: files.slice(0, MAX_STATUS_FILES), truncated: files.length > MAX_STATUS_FILES };
+}
+
+// Workspace-relative path (forward slashes) if path stays inside the root once symlinks
+// are resolved; a deleted file only needs its nearest existing parent to be inside
+async function insideRoot(root: string, path: string): Promise<string | null> {
+    if (!path || isAbsolute(path) || path.includes('\0')) return null;
+    const full = resolve(root, path);
+    if (!within(root, full) || full === root) return null;
+
+    let existing = full;
+    let rest = '';
+    for (;;) {
+        try {
+            const real = await realpath(existing);
+            if (!within(root, rest ? join(real, rest) : real)) return null;
+            break;
+        } catch {
+            if (existing === root) return null;
+            rest = rest ? join(basename(existing), rest) : basename(existing);
+            existing = dirname(existing);
+        }
+    }
+    return toPosix(relative(root, full));
+}
+
+// Diff of one file against HEAD; null if the path leaves the workspace
+export async function workspaceDiff(root: string, path: string): Promise<WorkspaceDiff | null> {
+    const relativePath = await insideRoot(root, path);
+    if (!relativePath) return null;
+
+    const flags = ['--no-color', '--no-ext-diff', '--no-textconv'];
+    const pathspec = `:(literal)${relativePath}`;
+
+    const tracked = (await git(root, ['ls-files', '--', pathspec])).stdout.trim() !== ''
+        || (await git(root, ['ls-tree', '--name-only', 'HEAD', '--', pathspec], [0, 128])).stdout.trim() !== '';
+    if (!tracked) {
+        // Untracked (or ignored) - everything in it is new
+        if (!await stat(join(root, relativePath)).then(s => s.isFile(), () => false)) return { path: relativePath, diff: '', truncated: false };
+        const { stdout, truncated } = await git(root, ['diff', ...flags, '--no-index', '--', '/dev/null', relativePath], [0, 1]);
+        return { path: relativePath, diff: stdout, truncated };
+    }
+
+    const hasHead = await git(root, ['rev-parse', '--verify', '--quiet', 'HEAD'], [0, 1]).then(r => r.stdout.trim() !== '');
+    const { stdout, truncated } = await git(root, ['diff', ...flags, hasHead ? 'HEAD' : EMPTY_TREE, '--', pathspec]);
+    return { path: relativePath, diff: stdout, truncated };
+}
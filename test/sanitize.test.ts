@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sanitizeHtml, scopeCss, sanitizeDeclarations } from '../src/sanitize.js';
+
+// Hostile fixtures: captured HTML/CSS that tries to run script or escape the snapshot container
+
+const SCOPE = '#chatContent';
+
+function html(input: string): string {
+    return sanitizeHtml(input, SCOPE);
+}
+
+describe('sanitizeHtml', () => {
+    it('drops inline event handlers in any case', () => {
+        assert.equal(html('<img src="x.png" onerror="alert(1)" ONLOAD=alert(2)>'), '<img src="x.png">');
+        assert.equal(html('<svg onload=alert(1)><circle OnClick="alert(2)"/></svg>'), '<svg><circle/></svg>');
+    });
+
+    it('drops javascript: URLs, including obfuscated ones', () => {
+        for (const href of [
+            'javascript:alert(1)',
+            ' JaVaScRiPt:alert(1)',
+            'jav&#x09;ascript:alert(1)',
+            'jav\tascript:alert(1)',
+            '&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;:alert(1)',
+            '&#x6A;avascript&colon;alert(1)',
+            'vbscript:msgbox(1)'
+        ]) {
+            assert.equal(html(`<a href="${href}">x</a>`), '<a>x</a>', href);
+        }
+    });
+
+    it('keeps ordinary and safe data URLs', () => {
+        assert.equal(html('<a href="https://example.com/a?b=1&amp;c=2">x</a>'), '<a href="https://example.com/a?b=1&amp;c=2">x</a>');
+        assert.equal(html('<img src="data:image/png;base64,AAAA"><img src="data:text/html,<script>alert(1)</script>">'),
+            '<img src="data:image/png;base64,AAAA"><img>');
+        assert.equal(html('<img srcset="a.png 1x, javascript:alert(1) 2x">'), '<img>');
+    });
+
+    it('removes srcdoc and the elements that could use it', () => {
+        assert.equal(html('<iframe srcdoc="<script>alert(1)</script>"></iframe><div srcdoc="x">y</div>'), '<div>y</div>');
+    });
+
+    it('removes SVG animation elements that can rewrite attributes', () => {
+        assert.equal(html('<svg><a><animate attributeName="href" values="javascript:alert(1)"/><text>t</text></a></svg>'),
+            '<svg><a><text>t</text></a></svg>');
+        assert.equal(html('<svg><set attributeName="onmouseover" to="alert(1)"/><animateTransform></animateTransform></svg>'), '<svg></svg>');
+    });
+
+    it('drops formaction and action URLs with script schemes', () => {
+        assert.equal(html('<form action="javascript:alert(1)"><button formaction="javascript:alert(2)">go</button></form>'),
+            '<form><button>go</button></form>');
+    });
+
+    it('treats raw-text elements as text up to their end tag', () => {
+        assert.equal(html('<script>document.write("<b>")</script><b>ok</b>'), '<b>ok</b>');
+        assert.equal(html('<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>'), '<img src="x">"&gt;');
+        assert.equal(html('<xmp><img src=x onerror=alert(1)></xmp>ok'), 'ok');
+        assert.equal(html('<style>p{color:red}</style><p>a</p>'), `<style>${SCOPE} p {color:red}\n</style><p>a</p>`);
+    });
+
+    it('drops comments, doctypes and processing instructions', () => {
+        assert.equal(html('a<!-- <img src=x onerror=alert(1)> -->b<!DOCTYPE html><?xml x?>c'), 'abc');
+    });
+
+    it('neutralizes script in inline styles', () => {
+        assert.equal(html('<p style="background:url(javascript:alert(1)); color: red">x</p>'), '<p style="background:none; color: red">x</p>');
+    });
+
+    it('keeps inline styles from covering the page', () => {
+        assert.equal(html('<div style="position:fixed!important;inset:0;z-index:2147483647">x</div>'),
+            '<div style="position: absolute!important;inset:0;z-index:2147483647">x</div>');
+    });
+});
+
+describe('sanitizeDeclarations', () => {
+    it('replaces unsafe url() values whole', () => {
+        assert.equal(sanitizeDeclarations('background:url(javascript:alert(1)); color: red'), 'background:none; color: red');
+        assert.equal(sanitizeDeclarations("background:url( 'javascript:alert(1)' )"), 'background:none');
+        assert.equal(sanitizeDeclarations('background:url("a b.png"), url( x.png )'), 'background:url("a b.png"), url( x.png )');
+    });
+
+    it('blocks expressions, behaviors and bindings', () => {
+        assert.equal(sanitizeDeclarations('behavior: url(x.htc); width: expression(alert(1)); -moz-binding: url(x.xml)'),
+            'blocked: url(x.htc); width: blocked(alert(1)); blocked: url(x.xml)');
+    });
+
+    it('turns fixed and sticky positioning into ordinary positioning', () => {
+        assert.equal(sanitizeDeclarations('position: fixed; top: 0'), 'position: absolute; top: 0');
+        assert.equal(sanitizeDeclarations('POSITION:Sticky'), 'position: relative');
+        assert.equal(sanitizeDeclarations('position: relative'), 'position: relative');
+    });
+});
+
+describe('scopeCss', () => {
+    it('drops @import and unknown at-rules', () => {
+        assert.equal(scopeCss('@import url(evil.css); p { color: red }', SCOPE), `${SCOPE} p { color: red }\n`);
+        assert.equal(scopeCss('@import "evil.css"; @unknown foo { .a { color: red } }', SCOPE), '');
+    });
+
+    it('applies :root, html and body rules to the scope element', () => {
+        assert.equal(scopeCss(':root { --x: 1 } body { margin: 0 } html { color: red }', SCOPE),
+            `${SCOPE} { --x: 1 }\n${SCOPE} { margin: 0 }\n${SCOPE} { color: red }\n`);
+        assert.equal(scopeCss('body > .b { x: 1 } body .c { x: 2 }', SCOPE), `${SCOPE} > .b { x: 1 }\n${SCOPE} .c { x: 2 }\n`);
+        assert.equal(scopeCss('html body .a { color: red }', SCOPE), `html body ${SCOPE} .a { color: red }\n`);
+    });
+
+    it('scopes every selector in a list and inside grouping rules', () => {
+        assert.equal(scopeCss('.a, .b:hover { color: red }', SCOPE), `${SCOPE} .a, ${SCOPE} .b:hover { color: red }\n`);
+        assert.equal(scopeCss('@media (max-width: 10px) { body .c { color: red } }', SCOPE),
+            `@media (max-width: 10px) {\n${SCOPE} .c { color: red }\n}\n`);
+    });
+
+    it('leaves already scoped selectors alone', () => {
+        assert.equal(scopeCss(`${SCOPE} .q { color: red }`, SCOPE), `${SCOPE} .q { color: red }\n`);
+    });
+
+    it('does not let CSS close the style element it is rendered in', () => {
+        assert.equal(scopeCss('.z::after { content: "</style><script>alert(1)</script>" }', SCOPE),
+            `${SCOPE} .z::after { content: "\\3c /style>\\3c script>alert(1)\\3c /script>" }\n`);
+    });
+
+    it('sanitizes declarations in rules and descriptor blocks', () => {
+        assert.equal(scopeCss('@font-face { font-family: x; src: url(javascript:alert(1)) }', SCOPE), '@font-face { font-family: x; src: none }\n');
+        assert.equal(scopeCss('.y { position: fixed; inset: 0 }', SCOPE), `${SCOPE} .y { position: absolute; inset: 0 }\n`);
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { WebSocket } from 'ws';
+import { AntigravitySession } from '../src/session.js';
+import type { CDPConnection } from '../src/cdp.js';
+import type { AgentStateChange } from '../src/agent.js';
+import { initLog } from '../src/log.js';
+
+// Agent state timing against a fake page: captures answer from `page`, timers are mocked
+
+initLog('warn', 'text');
+
+const page = { generating: false };
+
+// Answers the adapter check and the capture script; nothing else is needed here
+const cdp: CDPConnection = {
+    ws: { readyState: 1, on: () => { }, close: () => { } } as unknown as WebSocket,
+    contexts: [{ id: 1 }],
+    on: () => { },
+    call: async (_method, params) => {
+        const expression = String(params.expression);
+        if (expression.includes("'found'")) return { result: { value: ['found'] } };
+        return {
+            result: {
+                value: {
+                    html: '<p>reply</p>',
+                    css: '',
+                    backgroundColor: '#000',
+                    color: '#fff',
+                    fontFamily: 'sans-serif',
+                    actions: [],
+                    agentSignals: { generating: page.generating, error: null }
+                }
+            }
+        };
+    }
+};
+
+function connectedSession(): { session: AntigravitySession; states: AgentStateChange[] } {
+    const session = new AntigravitySession({
+        id: '9000:page',
+        port: 9000,
+        title: 'main.ts - demo - Antigravity',
+        workspace: 'demo',
+        url: 'ws://127.0.0.1:9000/devtools/page/page',
+        pageUrl: 'vscode-file://vscode-app/workbench.html'
+    });
+    session.cdp = cdp;
+    session.status = 'connected';
+    session.observing = true; // No captures unless the page changes
+
+    const states: AgentStateChange[] = [];
+    session.on('state', change => states.push(change));
+    return { session, states };
+}
+
+// Let a capture started by a timer run to the end
+function settle(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+describe('AntigravitySession agent state', () => {
+    afterEach(() => mock.timers.reset());
+
+    it('commits idle about 5 s after generation stops on a quiet page', async () => {
+        mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 1_000_000 });
+        const { session, states } = connectedSession();
+
+        page.generating = true;
+        await session.capture();
+        assert.deepEqual(states.map(s => s.state), ['generating']);
+
+        // Last change on the page; the observer reports nothing after this
+        page.generating = false;
+        await session.capture();
+        assert.deepEqual(states.map(s => s.state), ['generating']);
+
+        mock.timers.tick(4900);
+        await settle();
+        assert.deepEqual(states.map(s => s.state), ['generating']);
+
+        mock.timers.tick(100);
+        await settle();
+        assert.deepEqual(states.map(s => s.state), ['generating', 'idle']);
+        session.close();
+    });
+
+    it('drops the pending check when the agent resumes', async () => {
+        mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 1_000_000 });
+        const { session, states } = connectedSession();
+
+        page.generating = true;
+        await session.capture();
+        page.generating = false;
+        await session.capture();
+        mock.timers.tick(2000);
+        page.generating = true;
+        await session.capture();
+
+        mock.timers.tick(10000);
+        await settle();
+        assert.deepEqual(states.map(s => s.state), ['generating']);
+        session.close();
+    });
+});